@@ -0,0 +1,176 @@
+import type { CacheEntry } from './index';
+
+/**
+ * Why an entry left the cache
+ * - `capacity`: removed by the eviction policy to make room (LRU by default)
+ * - `expired`: removed to make room while already expired
+ * - `oversized`: replaced by a value too large to store (`maxEntryBytes`)
+ * - `manual`: removed by `invalidate()`, `refresh()` or another invalidation method
+ * - `clear`: removed by `clear()`
+ */
+export type CacheEvictionReason = StorageEvictionReason | 'manual' | 'clear';
+
+/**
+ * Reasons a storage removes entries on its own
+ */
+export type StorageEvictionReason = 'capacity' | 'expired' | 'oversized';
+
+/**
+ * Called by a storage for every entry it removes on its own
+ */
+export type StorageEvictionListener = (
+  key: string,
+  entry: CacheEntry,
+  reason: StorageEvictionReason
+) => void;
+
+/**
+ * Fields shared by all cache events
+ */
+export interface CacheEventBase {
+  /** Cache key of the entry */
+  key: string;
+  /** Request method, when known */
+  method?: string;
+  /** Request path, when known */
+  path?: string;
+  /** When the event happened, in milliseconds since the epoch */
+  timestamp: number;
+}
+
+/**
+ * Fields shared by the events of a request going through the plugin
+ */
+export interface CacheRequestEventBase extends CacheEventBase {
+  method: string;
+  path: string;
+}
+
+/**
+ * A fresh entry was served
+ */
+export interface CacheHitEvent extends CacheRequestEventBase {
+  /** Milliseconds since the entry was cached */
+  age: number;
+  expiresAt: Date;
+}
+
+/**
+ * No usable entry was found, so the request goes to the network
+ */
+export interface CacheMissEvent extends CacheRequestEventBase {
+  /** Whether an entry existed but was too old to serve */
+  expired: boolean;
+}
+
+/**
+ * An expired entry was served
+ */
+export interface CacheStaleEvent extends CacheRequestEventBase {
+  /** Milliseconds since the entry was cached */
+  age: number;
+  expiresAt: Date;
+  /**
+   * - `revalidate`: within `staleWhileRevalidate`, while refreshing in the background
+   * - `error`: within `staleIfError`, because the request failed
+   */
+  reason: 'revalidate' | 'error';
+}
+
+/**
+ * A fetched response was stored
+ */
+export interface CacheSetEvent extends CacheRequestEventBase {
+  entry: CacheEntry;
+  /** Milliseconds the request took */
+  duration: number;
+}
+
+/**
+ * An entry left the cache. Evictions by `clear()` carry only the key.
+ */
+export interface CacheEvictEvent extends CacheEventBase {
+  reason: CacheEvictionReason;
+}
+
+/**
+ * An entry was removed by an invalidation method, `invalidateOnMutation` or `refresh()`
+ */
+export type CacheInvalidateEvent = CacheEventBase;
+
+/**
+ * Fetching fresh data failed
+ */
+export interface CacheFetchErrorEvent extends CacheRequestEventBase {
+  error: unknown;
+  /** Milliseconds until the request failed */
+  duration: number;
+}
+
+/**
+ * A storage operation failed; the request carried on without the cache
+ */
+export interface CacheStorageErrorEvent extends CacheRequestEventBase {
+  /**
+   * - `get`: reading the entry failed, so the request was treated as a miss
+   * - `set`: storing a fetched response failed; the response was still returned
+   * - `invalidate`: removing entries after a mutation (`invalidateOnMutation`) failed;
+   *   the mutation result was still returned
+   */
+  operation: 'get' | 'set' | 'invalidate';
+  error: unknown;
+}
+
+/**
+ * Cache events by type
+ */
+export type CacheEventMap = {
+  hit: CacheHitEvent;
+  miss: CacheMissEvent;
+  stale: CacheStaleEvent;
+  set: CacheSetEvent;
+  evict: CacheEvictEvent;
+  invalidate: CacheInvalidateEvent;
+  fetchError: CacheFetchErrorEvent;
+  storageError: CacheStorageErrorEvent;
+};
+
+export type CacheEventType = keyof CacheEventMap;
+
+export type CacheEventListener<T extends CacheEventType> = (event: CacheEventMap[T]) => void;
+
+/**
+ * Minimal typed event emitter for cache events.
+ * Errors thrown by listeners are ignored so they cannot break requests.
+ */
+export class CacheEventEmitter {
+  private listeners = new Map<CacheEventType, Set<(event: any) => void>>();
+  
+  /**
+   * Adds a listener
+   * @returns Function removing the listener
+   */
+  on<T extends CacheEventType>(type: T, listener: CacheEventListener<T>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+  
+  off<T extends CacheEventType>(type: T, listener: CacheEventListener<T>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+  
+  emit<T extends CacheEventType>(type: T, event: CacheEventMap[T]): void {
+    this.listeners.get(type)?.forEach((listener) => {
+      try {
+        listener(event);
+      } catch {
+        // Listeners are for observation only
+      }
+    });
+  }
+}
@@ -0,0 +1,302 @@
+import type { CacheEntry } from './index';
+
+/**
+ * Strategy deciding which entry the in-memory storage removes when it is full
+ * 
+ * The storage reports every write, read and removal; the policy keeps whatever
+ * bookkeeping it needs and names the next entry to evict on request.
+ * 
+ * @example
+ * ```typescript
+ * // Evict the entry with the largest payload first
+ * class LargestFirstPolicy implements EvictionPolicy {
+ *   private sizes = new Map<string, number>();
+ *   onSet(key: string, entry: CacheEntry) { this.sizes.set(key, JSON.stringify(entry.data).length); }
+ *   onGet() {}
+ *   onDelete(key: string) { this.sizes.delete(key); }
+ *   clear() { this.sizes.clear(); }
+ *   evict() {
+ *     return [...this.sizes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+ *   }
+ * }
+ * ```
+ */
+export interface EvictionPolicy {
+  /**
+   * An entry was stored, either new or replacing an existing one
+   */
+  onSet(key: string, entry: CacheEntry): void;
+  
+  /**
+   * An entry was read
+   */
+  onGet(key: string, entry: CacheEntry): void;
+  
+  /**
+   * An entry was removed (deleted, replaced by an oversized entry or evicted)
+   */
+  onDelete(key: string): void;
+  
+  /**
+   * All entries were removed
+   */
+  clear(): void;
+  
+  /**
+   * Returns the key of the entry to remove next, or `undefined` when nothing is tracked
+   */
+  evict(): string | undefined;
+}
+
+/**
+ * Names of the built-in eviction policies
+ * - `lru`: least recently used
+ * - `lfu`: least frequently used, ties broken by least recent use
+ * - `fifo`: oldest stored first
+ * - `ttl`: soonest expiring first
+ */
+export type EvictionPolicyName = 'lru' | 'lfu' | 'fifo' | 'ttl';
+
+/**
+ * Least recently used: reads and writes move an entry to the back of the queue
+ */
+export class LruEvictionPolicy implements EvictionPolicy {
+  // Map insertion order is the recency order, oldest first
+  private order = new Map<string, true>();
+  
+  onSet(key: string): void {
+    this.touch(key);
+  }
+  
+  onGet(key: string): void {
+    this.touch(key);
+  }
+  
+  onDelete(key: string): void {
+    this.order.delete(key);
+  }
+  
+  clear(): void {
+    this.order.clear();
+  }
+  
+  evict(): string | undefined {
+    return this.order.keys().next().value;
+  }
+  
+  private touch(key: string): void {
+    this.order.delete(key);
+    this.order.set(key, true);
+  }
+}
+
+/**
+ * First in, first out: entries leave in the order they were first stored,
+ * regardless of reads or overwrites
+ */
+export class FifoEvictionPolicy implements EvictionPolicy {
+  private order = new Map<string, true>();
+  
+  onSet(key: string): void {
+    if (!this.order.has(key)) {
+      this.order.set(key, true);
+    }
+  }
+  
+  onGet(): void {}
+  
+  onDelete(key: string): void {
+    this.order.delete(key);
+  }
+  
+  clear(): void {
+    this.order.clear();
+  }
+  
+  evict(): string | undefined {
+    return this.order.keys().next().value;
+  }
+}
+
+/**
+ * Least frequently used: every read or write counts as a use, and among entries
+ * with the same count the least recently used one goes first.
+ * Uses frequency buckets so every operation runs in constant time.
+ */
+export class LfuEvictionPolicy implements EvictionPolicy {
+  private counts = new Map<string, number>();
+  // Keys by use count; Set insertion order gives recency within a bucket
+  private buckets = new Map<number, Set<string>>();
+  private minCount = 0;
+  
+  onSet(key: string): void {
+    if (this.counts.has(key)) {
+      this.touch(key);
+      return;
+    }
+    this.counts.set(key, 1);
+    this.bucket(1).add(key);
+    this.minCount = 1;
+  }
+  
+  onGet(key: string): void {
+    this.touch(key);
+  }
+  
+  onDelete(key: string): void {
+    const count = this.counts.get(key);
+    if (count === undefined) {
+      return;
+    }
+    this.counts.delete(key);
+    this.removeFromBucket(key, count);
+  }
+  
+  clear(): void {
+    this.counts.clear();
+    this.buckets.clear();
+    this.minCount = 0;
+  }
+  
+  evict(): string | undefined {
+    if (this.counts.size === 0) {
+      return undefined;
+    }
+    if (!this.buckets.has(this.minCount)) {
+      // The lowest bucket was emptied by a delete
+      this.minCount = Math.min(...this.buckets.keys());
+    }
+    return this.buckets.get(this.minCount)!.values().next().value;
+  }
+  
+  private touch(key: string): void {
+    const count = this.counts.get(key);
+    if (count === undefined) {
+      return;
+    }
+    this.removeFromBucket(key, count);
+    if (count === this.minCount && !this.buckets.has(count)) {
+      this.minCount = count + 1;
+    }
+    this.counts.set(key, count + 1);
+    this.bucket(count + 1).add(key);
+  }
+  
+  private bucket(count: number): Set<string> {
+    let keys = this.buckets.get(count);
+    if (!keys) {
+      keys = new Set();
+      this.buckets.set(count, keys);
+    }
+    return keys;
+  }
+  
+  private removeFromBucket(key: string, count: number): void {
+    const keys = this.buckets.get(count);
+    keys?.delete(key);
+    if (keys?.size === 0) {
+      this.buckets.delete(count);
+    }
+  }
+}
+
+/**
+ * Soonest expiring first: evicts the entry with the earliest `expiresAt`.
+ * Keeps a binary min-heap with lazy removal, so operations run in logarithmic time.
+ */
+export class ExpiryEvictionPolicy implements EvictionPolicy {
+  private expiries = new Map<string, number>();
+  private heap: Array<{ key: string; expiresAt: number }> = [];
+  
+  onSet(key: string, entry: CacheEntry): void {
+    const expiresAt = entry.expiresAt.getTime();
+    this.expiries.set(key, expiresAt);
+    this.push({ key, expiresAt });
+    
+    // Rebuild once outdated items dominate the heap
+    if (this.heap.length > this.expiries.size * 2 + 16) {
+      this.heap = [];
+      this.expiries.forEach((time, tracked) => this.push({ key: tracked, expiresAt: time }));
+    }
+  }
+  
+  onGet(): void {}
+  
+  onDelete(key: string): void {
+    // The heap item is discarded when it reaches the top
+    this.expiries.delete(key);
+  }
+  
+  clear(): void {
+    this.expiries.clear();
+    this.heap = [];
+  }
+  
+  evict(): string | undefined {
+    while (this.heap.length > 0) {
+      const { key, expiresAt } = this.heap[0];
+      if (this.expiries.get(key) === expiresAt) {
+        return key;
+      }
+      // Outdated item for a deleted or rewritten entry
+      this.pop();
+    }
+    return undefined;
+  }
+  
+  private push(item: { key: string; expiresAt: number }): void {
+    const heap = this.heap;
+    heap.push(item);
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent].expiresAt <= heap[index].expiresAt) {
+        break;
+      }
+      [heap[parent], heap[index]] = [heap[index], heap[parent]];
+      index = parent;
+    }
+  }
+  
+  private pop(): void {
+    const heap = this.heap;
+    const last = heap.pop()!;
+    if (heap.length === 0) {
+      return;
+    }
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && heap[left].expiresAt < heap[smallest].expiresAt) {
+        smallest = left;
+      }
+      if (right < heap.length && heap[right].expiresAt < heap[smallest].expiresAt) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return;
+      }
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+  }
+}
+
+/**
+ * Creates a built-in eviction policy by name
+ */
+export const createEvictionPolicy = (name: EvictionPolicyName): EvictionPolicy => {
+  switch (name) {
+    case 'lfu':
+      return new LfuEvictionPolicy();
+    case 'fifo':
+      return new FifoEvictionPolicy();
+    case 'ttl':
+      return new ExpiryEvictionPolicy();
+    default:
+      return new LruEvictionPolicy();
+  }
+};
@@ -1,4 +1,41 @@
 import { createPlugin } from 'endpoint-fetcher';
+import { createEvictionPolicy, EvictionPolicy, EvictionPolicyName } from './eviction';
+import {
+  CacheEventEmitter,
+  CacheEventListener,
+  CacheEventType,
+  CacheEventMap,
+  CacheEvictEvent,
+  CacheFetchErrorEvent,
+  CacheHitEvent,
+  CacheInvalidateEvent,
+  CacheMissEvent,
+  CacheSetEvent,
+  CacheStaleEvent,
+  CacheStorageErrorEvent,
+  StorageEvictionListener,
+  StorageEvictionReason
+} from './events';
+import { defaultKeyGenerator, limitKeyLength } from './keys';
+import { CacheStats, CacheStatsCollector, normalizePathPattern } from './stats';
+import type { CacheEntryInfo } from './inspect';
+import { mapWithConcurrency, PrefetchOptions, PrefetchRequest, PrefetchResult } from './prefetch';
+import { CacheSnapshot, dehydrateStorage, hydrateStorage, HydrateResult } from './snapshot';
+
+export * from './eviction';
+export * from './events';
+export { canonicalStringify, defaultKeyGenerator, hashKey } from './keys';
+export { serializeEntry, deserializeEntry } from './serialization';
+export { FETCH_DURATION_BUCKETS, normalizePathPattern, toPrometheus } from './stats';
+export type { CacheCounters, CacheEndpointStats, CacheStats, FetchDurationStats } from './stats';
+export * from './inspect';
+export type { PrefetchOptions, PrefetchRequest, PrefetchResult } from './prefetch';
+export * from './snapshot';
+export * from './storage/web';
+export * from './storage/indexeddb';
+export * from './storage/tiered';
+export * from './storage/compressed';
+export * from './storage/encrypted';
 
 /**
  * Wrapper type that adds caching metadata and methods to the response
@@ -23,7 +60,7 @@ import { createPlugin } from 'endpoint-fetcher';
  * console.log(result.cachedAt);    // Date
  * console.log(result.isStale);     // boolean
  * await result.refresh();          // Refresh the cache
- * result.invalidate();             // Clear from cache
+ * await result.invalidate();       // Clear from cache
  * ```
  */
 export type CachingWrapper<T> = {
@@ -55,7 +92,25 @@ export type CachingWrapper<T> = {
   /**
    * Remove this entry from the cache
    */
-  invalidate: () => void;
+  invalidate: () => Promise<void>;
+  
+  /**
+   * Whether this is expired data served because the request failed
+   * (only within the `staleIfError` window)
+   */
+  isFallback?: boolean;
+  
+  /**
+   * The request error that caused the fallback to cached data
+   */
+  error?: unknown;
+  
+  /**
+   * Background revalidation started because stale data was served
+   * (only set within the `staleWhileRevalidate` window).
+   * Resolves with the fresh wrapper, or rejects if the refetch fails.
+   */
+  revalidation?: Promise<CachingWrapper<T>>;
 };
 
 /**
@@ -74,40 +129,311 @@ export type CachePluginConfig = {
    */
   methods?: string[];
   
+  /**
+   * Time in seconds after expiry during which stale data is returned immediately
+   * while a background request refreshes the entry
+   * @default 0 (disabled)
+   */
+  staleWhileRevalidate?: number;
+  
+  /**
+   * Time in seconds after expiry during which stale data is returned
+   * if fetching fresh data fails
+   * @default 0 (disabled)
+   */
+  staleIfError?: number;
+  
+  /**
+   * Derive expiry from the response's `Cache-Control`, `Expires` and `Age` headers.
+   * `max-age` (or `s-maxage`) and `Expires` replace `ttl`, minus the `Age` already spent in upstream caches.
+   * `no-store` responses are not cached and `no-cache` responses expire immediately.
+   * Responses without caching headers use `ttl`.
+   * @default false
+   */
+  respectCacheHeaders?: boolean;
+  
+  /**
+   * Revalidate expired entries with conditional requests.
+   * The `ETag` and `Last-Modified` response headers are stored with each entry and sent back
+   * as `If-None-Match` / `If-Modified-Since`; a `304 Not Modified` response extends
+   * the existing entry instead of downloading the body again.
+   * @default false
+   */
+  conditionalRequests?: boolean;
+  
+  /**
+   * Tags stored with every entry, for invalidating related entries together with `invalidateTags()`
+   * 
+   * @example
+   * ```typescript
+   * cache({
+   *   tags: ({ path, data }) => path.startsWith('/orders/') ? [`order:${data.id}`] : []
+   * })
+   * ```
+   */
+  tags?: CacheTags;
+  
+  /**
+   * Invalidate cached entries after successful mutating requests (POST, PUT, PATCH, DELETE)
+   * that are not themselves cached.
+   * - `true`: removes entries for the same path or a parent path,
+   *   e.g. `PUT /users/7` removes `GET /users/7` and `GET /users`
+   * - function: maps the mutation to the entries to remove
+   * 
+   * @example
+   * ```typescript
+   * cache({
+   *   invalidateOnMutation: ({ path }) => path.startsWith('/orders') ? ['/orders/**', '/dashboard'] : []
+   * })
+   * ```
+   * 
+   * @default false
+   */
+  invalidateOnMutation?: boolean | ((mutation: CachedRequest) => EntryMatcher | EntryMatcher[]);
+  
+  /**
+   * Per-endpoint caching rules, matched against the request method and path.
+   * 
+   * Precedence:
+   * 1. Rules are checked in order and only the first matching rule applies
+   * 2. A rule with `bypass: true` sends the request straight to the network
+   * 3. Options set on the rule override the global options above
+   * 4. Requests matching no rule use the global options
+   * 
+   * @default []
+   */
+  rules?: CacheRule[];
+  
   /**
    * Maximum number of cache entries to store
-   * When exceeded, oldest entries are removed (LRU)
+   * When exceeded, entries are removed according to `eviction` (LRU by default)
    * @default Infinity (no limit)
    */
   maxSize?: number;
   
+  /**
+   * Memory budget in bytes for the default storage
+   * When exceeded, least recently used entries are removed until the cache fits.
+   * Responses larger than the whole budget are not cached.
+   * @default Infinity (no limit)
+   */
+  maxBytes?: number;
+  
+  /**
+   * Responses whose entry is larger than this many bytes are not cached
+   * (default storage only)
+   * @default Infinity (no limit)
+   */
+  maxEntryBytes?: number;
+  
+  /**
+   * Measures the size of an entry in bytes for `maxBytes` and `maxEntryBytes`
+   * @default estimateEntrySize
+   */
+  sizeOf?: (entry: CacheEntry) => number;
+  
+  /**
+   * Eviction policy of the default storage: `'lru'`, `'lfu'`, `'fifo'`, `'ttl'`
+   * (soonest expiring first) or a custom `EvictionPolicy`
+   * @default 'lru'
+   */
+  eviction?: EvictionPolicyName | EvictionPolicy;
+  
   /**
    * Custom cache key generator
-   * By default uses: `${method}:${path}:${JSON.stringify(input)}`
+   * By default uses: `${method}:${baseUrl}${path}:${canonicalStringify(input)}`
    * 
    * @param method - HTTP method
    * @param path - Request path
    * @param input - Request input/body
+   * @param baseUrl - Base URL of the client
    * @returns Cache key string
    */
-  keyGenerator?: (method: string, path: string, input: any) => string;
+  keyGenerator?: (method: string, path: string, input: any, baseUrl: string) => string;
+  
+  /**
+   * Base URL of the client, for building cache keys in `prefetch()`, `peek()`
+   * and `invalidate()` before the first request has gone through the plugin.
+   * Afterwards the base URL of the latest request is used.
+   */
+  baseUrl?: string;
+  
+  /**
+   * Keys longer than this are shortened to exactly this length by replacing
+   * their tail with a hash of the full key
+   * @default Infinity (no limit)
+   */
+  maxKeyLength?: number;
   
   /**
    * Custom storage adapter (useful for persistent caching)
    * @default In-memory Map
    */
   storage?: CacheStorage;
+  
+  /**
+   * Groups requests for `stats()`
+   * @default the matching rule's string pattern, otherwise the path with
+   * identifier-like segments replaced by `:id` (see `normalizePathPattern`)
+   */
+  statsPattern?: (method: string, path: string) => string;
+  
+  /**
+   * Called when a fresh entry is served
+   */
+  onHit?: (event: CacheHitEvent) => void;
+  
+  /**
+   * Called when no usable entry exists and the request goes to the network
+   */
+  onMiss?: (event: CacheMissEvent) => void;
+  
+  /**
+   * Called when an expired entry is served (`staleWhileRevalidate` or `staleIfError`)
+   */
+  onStale?: (event: CacheStaleEvent) => void;
+  
+  /**
+   * Called when a fetched response is stored
+   */
+  onSet?: (event: CacheSetEvent) => void;
+  
+  /**
+   * Called for every entry leaving the cache, with the reason.
+   * Evictions to make room are reported by storages implementing `onEvict`,
+   * such as the default in-memory storage.
+   */
+  onEvict?: (event: CacheEvictEvent) => void;
+  
+  /**
+   * Called for every entry removed by an invalidation method, `invalidateOnMutation` or `refresh()`
+   */
+  onInvalidate?: (event: CacheInvalidateEvent) => void;
+  
+  /**
+   * Called when fetching fresh data fails
+   */
+  onFetchError?: (event: CacheFetchErrorEvent) => void;
+  
+  /**
+   * Called when the storage fails to read, store or invalidate entries. Such failures
+   * never fail the request: reads count as misses and responses are still returned.
+   */
+  onStorageError?: (event: CacheStorageErrorEvent) => void;
 };
 
+/**
+ * Request path pattern
+ * - string: exact path or glob, where `*` matches within one segment and `**` across segments
+ *   (the query string is ignored)
+ * - RegExp: tested against the full path
+ * - function: predicate receiving the method and path
+ */
+export type PathPattern = string | RegExp | ((method: string, path: string) => boolean);
+
+/**
+ * Caching rule for the requests matching a path pattern
+ * 
+ * @example
+ * ```typescript
+ * cache({
+ *   ttl: 300,
+ *   rules: [
+ *     { match: '/me/notifications', bypass: true },
+ *     { match: '/config', ttl: 3600 },
+ *     { match: /^\/feed/, ttl: 10, namespace: 'feed' }
+ *   ]
+ * })
+ * ```
+ */
+export type CacheRule = {
+  /**
+   * Path pattern selecting the requests this rule applies to
+   */
+  match: PathPattern;
+  
+  /**
+   * HTTP methods this rule applies to
+   * @default the plugin's `methods` option
+   */
+  methods?: string[];
+  
+  /**
+   * Skip the cache entirely for matching requests
+   * @default false
+   */
+  bypass?: boolean;
+  
+  /**
+   * Time to live in seconds for matching requests
+   */
+  ttl?: number;
+  
+  /**
+   * Stale-while-revalidate window in seconds for matching requests
+   */
+  staleWhileRevalidate?: number;
+  
+  /**
+   * Stale-if-error window in seconds for matching requests
+   */
+  staleIfError?: number;
+  
+  /**
+   * Prefix added to the cache keys of matching requests (`${namespace}:${key}`)
+   */
+  namespace?: string;
+  
+  /**
+   * Tags for matching requests, replacing the plugin's `tags` option
+   */
+  tags?: CacheTags;
+};
+
+/**
+ * Tags attached to a cache entry: a fixed list, or computed from the request and response data
+ */
+export type CacheTags =
+  | string[]
+  | ((request: { method: string; path: string; input: any; data: any }) => string[]);
+
+/**
+ * A value or a Promise of it
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
 /**
  * Cache storage interface
+ * 
+ * Every method may return its result directly or as a Promise,
+ * so both synchronous (memory, localStorage) and asynchronous
+ * (IndexedDB, file system, Redis) backends can be used.
  */
 export interface CacheStorage {
-  get(key: string): CacheEntry | undefined;
-  set(key: string, value: CacheEntry): void;
-  delete(key: string): void;
-  clear(): void;
-  keys(): string[];
+  get(key: string): MaybePromise<CacheEntry | undefined>;
+  
+  /**
+   * Stores an entry. Returning `false` reports that the entry was not stored
+   * (e.g. too large); any other result counts as stored.
+   */
+  set(key: string, value: CacheEntry): MaybePromise<void | boolean>;
+  
+  delete(key: string): MaybePromise<void>;
+  clear(): MaybePromise<void>;
+  keys(): MaybePromise<string[]>;
+  
+  /**
+   * Optional: reads an entry without counting it as a use (e.g. for LRU order).
+   * The plugin uses it for `inspect()`, `peek()` and invalidation scans, falling back to `get`.
+   */
+  peek?(key: string): MaybePromise<CacheEntry | undefined>;
+  
+  /**
+   * Optional: registers a listener for entries the storage removes on its own,
+   * e.g. to stay within a size limit, so the plugin can report them
+   * @returns Function removing the listener
+   */
+  onEvict?(listener: StorageEvictionListener): () => void;
 }
 
 /**
@@ -117,66 +443,424 @@ export interface CacheEntry {
   data: any;
   cachedAt: Date;
   expiresAt: Date;
+  /** `ETag` response header, used for conditional revalidation */
+  etag?: string;
+  /** `Last-Modified` response header, used for conditional revalidation */
+  lastModified?: string;
+  /**
+   * Set for `Cache-Control: no-cache` responses: the entry is never served
+   * without revalidation, not even within `staleWhileRevalidate` or `staleIfError`
+   */
+  mustRevalidate?: boolean;
+  /** The request that produced this entry, independent of the key format */
+  request?: CachedRequest;
+  /** Tags used for group invalidation with `invalidateTags()` */
+  tags?: string[];
+}
+
+/**
+ * Method, path and input of a cached request
+ */
+export interface CachedRequest {
+  method: string;
+  path: string;
+  input: any;
+}
+
+/**
+ * Context passed by endpoint-fetcher to endpoint handlers
+ */
+interface HandlerContext {
+  fetch: typeof fetch;
+  method: any;
+  path: string;
+  baseUrl: string;
+}
+
+type EndpointHandler = (input: any, context: HandlerContext) => Promise<unknown>;
+
+/**
+ * A network request shared by concurrent callers of the same key
+ */
+interface InFlightFetch {
+  entry: Promise<CacheEntry>;
+  request: CachedRequest;
+  /** Invalidations made meanwhile; a result matching one of them is not stored */
+  invalidations: Array<(entry: CacheEntry) => boolean>;
 }
 
+// Handlers remembered for `prefetch()`, oldest first
+const MAX_REMEMBERED_HANDLERS = 1000;
+
+/**
+ * Selects cached entries: a path glob, a RegExp tested against the path,
+ * or a predicate over the original request and its entry
+ */
+export type EntryMatcher =
+  | string
+  | RegExp
+  | ((entry: CachedRequest & { entry: CacheEntry }) => boolean);
+
+/**
+ * Approximate memory footprint of a cache entry in bytes
+ * 
+ * Walks the cached data: strings count 2 bytes per character, numbers 8,
+ * binary data its byte length, plus a small overhead per object and property.
+ */
+export const estimateEntrySize = (entry: CacheEntry): number => {
+  const seen = new WeakSet<object>();
+  
+  const sizeOf = (value: unknown): number => {
+    switch (typeof value) {
+      case 'string':
+        return value.length * 2;
+      case 'number':
+        return 8;
+      case 'boolean':
+        return 4;
+      case 'bigint':
+        return value.toString().length;
+      case 'object':
+        break;
+      default:
+        return 0;
+    }
+    
+    if (value === null || seen.has(value)) {
+      return 0;
+    }
+    seen.add(value);
+    
+    if (value instanceof Date) {
+      return 8;
+    }
+    if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+      return value.byteLength;
+    }
+    
+    let size = 16;
+    if (value instanceof Map) {
+      value.forEach((item, key) => {
+        size += sizeOf(key) + sizeOf(item);
+      });
+    } else if (value instanceof Set) {
+      value.forEach((item) => {
+        size += sizeOf(item);
+      });
+    } else {
+      for (const [key, item] of Object.entries(value)) {
+        size += key.length * 2 + sizeOf(item);
+      }
+    }
+    return size;
+  };
+  
+  return sizeOf(entry);
+};
+
+/**
+ * Options for the in-memory cache storage
+ */
+export type InMemoryCacheStorageOptions = {
+  /**
+   * Maximum number of entries
+   * @default Infinity (no limit)
+   */
+  maxSize?: number;
+  
+  /**
+   * Maximum total size of all entries in bytes, as measured by `sizeOf`
+   * @default Infinity (no limit)
+   */
+  maxBytes?: number;
+  
+  /**
+   * Entries larger than this many bytes, or than `maxBytes`, are not stored at all
+   * @default Infinity (no limit)
+   */
+  maxEntryBytes?: number;
+  
+  /**
+   * Measures the size of an entry in bytes
+   * @default estimateEntrySize
+   */
+  sizeOf?: (entry: CacheEntry) => number;
+  
+  /**
+   * Which entry to remove when a limit is reached: a built-in policy name or a custom policy
+   * @default 'lru'
+   */
+  eviction?: EvictionPolicyName | EvictionPolicy;
+};
+
 /**
- * Default in-memory cache storage with LRU eviction
+ * Default in-memory cache storage
+ * 
+ * Entries chosen by the eviction policy (LRU by default) are removed
+ * until both the entry count and the total byte size fit their limits.
  */
-class InMemoryCacheStorage implements CacheStorage {
-  private cache = new Map<string, CacheEntry>();
-  private accessOrder: string[] = [];
+export class InMemoryCacheStorage implements CacheStorage {
+  private cache = new Map<string, { entry: CacheEntry; size: number }>();
+  private totalBytes = 0;
+  private maxSize: number;
+  private maxBytes: number;
+  private maxEntryBytes: number;
+  private sizeOf: (entry: CacheEntry) => number;
+  private policy: EvictionPolicy;
+  private evictionListeners = new Set<StorageEvictionListener>();
+  
+  constructor(options: number | InMemoryCacheStorageOptions = {}) {
+    const {
+      maxSize = Infinity,
+      maxBytes = Infinity,
+      maxEntryBytes = Infinity,
+      sizeOf = estimateEntrySize,
+      eviction = 'lru'
+    } = typeof options === 'number' ? { maxSize: options } : options;
+    
+    this.maxSize = maxSize;
+    this.maxBytes = maxBytes;
+    this.maxEntryBytes = maxEntryBytes;
+    this.policy = typeof eviction === 'string' ? createEvictionPolicy(eviction) : eviction;
+    // Only measure entries when a byte limit needs it
+    this.sizeOf = maxBytes === Infinity && maxEntryBytes === Infinity ? () => 0 : sizeOf;
+  }
+  
+  /**
+   * Total size in bytes of the stored entries
+   */
+  get bytes(): number {
+    return this.totalBytes;
+  }
   
-  constructor(private maxSize: number = Infinity) {}
+  onEvict(listener: StorageEvictionListener): () => void {
+    this.evictionListeners.add(listener);
+    return () => {
+      this.evictionListeners.delete(listener);
+    };
+  }
   
   get(key: string): CacheEntry | undefined {
-    const entry = this.cache.get(key);
-    if (entry) {
-      // Update access order (LRU)
-      this.accessOrder = this.accessOrder.filter(k => k !== key);
-      this.accessOrder.push(key);
+    const item = this.cache.get(key);
+    if (item) {
+      this.policy.onGet(key, item.entry);
     }
-    return entry;
+    return item?.entry;
+  }
+  
+  peek(key: string): CacheEntry | undefined {
+    return this.cache.get(key)?.entry;
   }
   
-  set(key: string, value: CacheEntry): void {
-    // Remove oldest entry if at capacity
-    if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
-      const oldestKey = this.accessOrder.shift();
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
+  set(key: string, value: CacheEntry): boolean {
+    const size = this.sizeOf(value);
+    if (size > this.maxEntryBytes || size > this.maxBytes) {
+      // Too large to cache at all; drop the outdated value as well
+      const outdated = this.cache.get(key);
+      this.delete(key);
+      if (outdated) {
+        this.notifyEviction(key, outdated.entry, 'oversized');
       }
+      return false;
     }
     
-    this.cache.set(key, value);
+    // Replace without notifying the policy, which sees the overwrite in onSet
+    const existing = this.cache.get(key);
+    if (existing) {
+      this.cache.delete(key);
+      this.totalBytes -= existing.size;
+    }
+    
+    // Evict until the new entry fits
+    while (
+      this.cache.size > 0 &&
+      (this.cache.size >= this.maxSize || this.totalBytes + size > this.maxBytes)
+    ) {
+      const victim = this.policy.evict();
+      if (victim === undefined) {
+        break;
+      }
+      const evicted = this.cache.get(victim);
+      this.delete(victim);
+      if (evicted) {
+        const expired = evicted.entry.expiresAt.getTime() <= Date.now();
+        this.notifyEviction(victim, evicted.entry, expired ? 'expired' : 'capacity');
+      }
+    }
     
-    // Update access order
-    this.accessOrder = this.accessOrder.filter(k => k !== key);
-    this.accessOrder.push(key);
+    this.cache.set(key, { entry: value, size });
+    this.totalBytes += size;
+    this.policy.onSet(key, value);
+    return true;
   }
   
   delete(key: string): void {
-    this.cache.delete(key);
-    this.accessOrder = this.accessOrder.filter(k => k !== key);
+    const item = this.cache.get(key);
+    if (item) {
+      this.cache.delete(key);
+      this.totalBytes -= item.size;
+    }
+    this.policy.onDelete(key);
   }
   
   clear(): void {
     this.cache.clear();
-    this.accessOrder = [];
+    this.totalBytes = 0;
+    this.policy.clear();
   }
   
   keys(): string[] {
     return Array.from(this.cache.keys());
   }
+  
+  private notifyEviction(key: string, entry: CacheEntry, reason: StorageEvictionReason): void {
+    this.evictionListeners.forEach((listener) => listener(key, entry, reason));
+  }
 }
 
 /**
- * Default cache key generator
+ * Converts a path glob into a regular expression
  */
-const defaultKeyGenerator = (method: string, path: string, input: any): string => {
-  const inputStr = input === undefined || input === null 
-    ? '' 
-    : JSON.stringify(input);
-  return `${method}:${path}:${inputStr}`;
+const globToRegExp = (glob: string): RegExp => {
+  const pattern = glob
+    .split(/(\*\*|\*)/)
+    .map((part) => {
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${pattern}$`);
+};
+
+/**
+ * Creates a predicate testing a request against a path pattern
+ */
+const createPathMatcher = (pattern: PathPattern): ((method: string, path: string) => boolean) => {
+  if (typeof pattern === 'function') {
+    return pattern;
+  }
+  if (pattern instanceof RegExp) {
+    return (_method, path) => pattern.test(path);
+  }
+  const regex = globToRegExp(pattern);
+  return (_method, path) => regex.test(path.split('?')[0]);
+};
+
+/**
+ * Caching directives read from response headers
+ */
+type CacheDirectives = {
+  noStore: boolean;
+  noCache: boolean;
+  /** Remaining freshness lifetime in seconds */
+  maxAge?: number;
+};
+
+/**
+ * Reads the caching directives from the `Cache-Control`, `Expires` and `Age` headers
+ */
+const parseCacheHeaders = (headers: Headers, now: number): CacheDirectives => {
+  const cacheControl = new Map<string, string>();
+  for (const part of (headers.get('cache-control') ?? '').split(',')) {
+    const [name, value = ''] = part.trim().split('=');
+    if (name) {
+      cacheControl.set(name.toLowerCase(), value.replace(/"/g, ''));
+    }
+  }
+  
+  const seconds = (value: string | undefined): number | undefined => {
+    const parsed = parseInt(value ?? '', 10);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  };
+  
+  let lifetime = seconds(cacheControl.get('max-age')) ?? seconds(cacheControl.get('s-maxage'));
+  
+  const expires = headers.get('expires');
+  if (lifetime === undefined && expires !== null) {
+    const expiresAt = Date.parse(expires);
+    const date = Date.parse(headers.get('date') ?? '');
+    // Invalid dates such as `Expires: 0` mean already expired
+    lifetime = Number.isNaN(expiresAt)
+      ? 0
+      : (expiresAt - (Number.isNaN(date) ? now : date)) / 1000;
+  }
+  
+  const age = seconds(headers.get('age') ?? undefined) ?? 0;
+  
+  return {
+    noStore: cacheControl.has('no-store'),
+    noCache: cacheControl.has('no-cache'),
+    maxAge: lifetime === undefined ? undefined : Math.max(0, lifetime - age)
+  };
+};
+
+/**
+ * Builds the conditional request headers revalidating a cache entry
+ */
+const conditionalHeaders = (entry: CacheEntry): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (entry.etag) {
+    headers['If-None-Match'] = entry.etag;
+  }
+  if (entry.lastModified) {
+    headers['If-Modified-Since'] = entry.lastModified;
+  }
+  return headers;
+};
+
+/**
+ * Computes the tags of a new cache entry
+ */
+const resolveTags = (
+  tags: CacheTags | undefined,
+  request: { method: string; path: string; input: any; data: any }
+): string[] | undefined => {
+  if (!tags) {
+    return undefined;
+  }
+  return typeof tags === 'function' ? tags(request) : tags;
+};
+
+/**
+ * Creates a predicate testing a stored entry against an entry matcher.
+ * Entries stored without request details never match.
+ */
+const createEntryMatcher = (matcher: EntryMatcher): ((entry: CacheEntry) => boolean) => {
+  if (typeof matcher === 'function') {
+    return (entry) => !!entry.request && matcher({ ...entry.request, entry });
+  }
+  const matchesPath = createPathMatcher(matcher);
+  return (entry) => !!entry.request && matchesPath(entry.request.method, entry.request.path);
+};
+
+/**
+ * Tells from a request alone whether its entry will match a path glob or
+ * RegExp. Predicates need the entry, so no request matches them ahead of it.
+ */
+const createRequestMatcher = (matcher: EntryMatcher): ((request: CachedRequest) => boolean) => {
+  if (typeof matcher === 'function') {
+    return () => false;
+  }
+  const matchesPath = createPathMatcher(matcher);
+  return (request) => matchesPath(request.method, request.path);
+};
+
+/**
+ * HTTP methods treated as mutations by `invalidateOnMutation`
+ */
+const MUTATION_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Default mutation mapping: entries for the same path or one of its parents
+ */
+const defaultMutationMapper = (mutation: CachedRequest): EntryMatcher => {
+  const normalize = (path: string) => path.split('?')[0].replace(/\/+$/, '');
+  const mutationPath = normalize(mutation.path);
+  return ({ path }) => {
+    const cachedPath = normalize(path);
+    return mutationPath === cachedPath || mutationPath.startsWith(`${cachedPath}/`);
+  };
 };
 
 /**
@@ -217,7 +901,7 @@ const defaultKeyGenerator = (method: string, path: string, input: any): string =
  * console.log(result.cachedAt);    // Date
  * console.log(result.isStale);     // boolean
  * await result.refresh();          // Force refresh
- * result.invalidate();             // Clear from cache
+ * await result.invalidate();       // Clear from cache
  * ```
  * 
  * @example
@@ -247,103 +931,675 @@ export const cache = createPlugin('cache', (config?: CachePluginConfig) => {
   const {
     ttl = 300,
     methods = ['GET'],
+    staleWhileRevalidate = 0,
+    staleIfError = 0,
+    rules = [],
+    respectCacheHeaders = false,
+    conditionalRequests = false,
+    tags,
+    invalidateOnMutation = false,
     maxSize = Infinity,
+    maxBytes = Infinity,
+    maxEntryBytes = Infinity,
+    sizeOf = estimateEntrySize,
+    eviction = 'lru',
     keyGenerator = defaultKeyGenerator,
-    storage = new InMemoryCacheStorage(maxSize)
+    maxKeyLength = Infinity,
+    baseUrl,
+    statsPattern,
+    storage = new InMemoryCacheStorage({ maxSize, maxBytes, maxEntryBytes, sizeOf, eviction })
   } = config || {};
   
+  const events = new CacheEventEmitter();
+  
+  // Config callbacks are registered like any other listener
+  const callbacks: { [T in CacheEventType]: CacheEventListener<T> | undefined } = {
+    hit: config?.onHit,
+    miss: config?.onMiss,
+    stale: config?.onStale,
+    set: config?.onSet,
+    evict: config?.onEvict,
+    invalidate: config?.onInvalidate,
+    fetchError: config?.onFetchError,
+    storageError: config?.onStorageError
+  };
+  (Object.keys(callbacks) as CacheEventType[]).forEach((type) => {
+    const callback = callbacks[type];
+    if (callback) {
+      events.on(type, callback as CacheEventListener<CacheEventType>);
+    }
+  });
+  
+  const statistics = new CacheStatsCollector((method, path) =>
+    statsPattern?.(method, path) ?? resolveOptions(method, path).pattern ?? normalizePathPattern(path)
+  );
+  
+  /**
+   * Reports an event to the statistics and to the listeners
+   */
+  const emit = <T extends CacheEventType>(type: T, event: CacheEventMap[T]): void => {
+    statistics.record(type, event);
+    events.emit(type, event);
+  };
+  
+  /**
+   * Event fields describing a stored entry
+   */
+  const entryFields = (key: string, entry?: CacheEntry) => ({
+    key,
+    method: entry?.request?.method,
+    path: entry?.request?.path,
+    timestamp: Date.now()
+  });
+  
+  storage.onEvict?.((key, entry, reason) => {
+    emit('evict', { ...entryFields(key, entry), reason });
+  });
+  
+  const compiledRules = rules.map((rule) => ({
+    rule,
+    matches: createPathMatcher(rule.match)
+  }));
+  
+  /**
+   * Resolves the caching options for a request from the first matching rule
+   * and the global configuration
+   */
+  const resolveOptions = (method: string, path: string) => {
+    const rule = compiledRules.find(({ rule, matches }) =>
+      (rule.methods ?? methods).includes(method) && matches(method, path)
+    )?.rule;
+    
+    return {
+      cacheable: rule ? !rule.bypass : methods.includes(method),
+      pattern: typeof rule?.match === 'string' ? rule.match : undefined,
+      ttl: rule?.ttl ?? ttl,
+      staleWhileRevalidate: rule?.staleWhileRevalidate ?? staleWhileRevalidate,
+      staleIfError: rule?.staleIfError ?? staleIfError,
+      namespace: rule?.namespace,
+      tags: rule?.tags ?? tags
+    };
+  };
+  
+  // Base URL of the client, recorded from requests so `invalidate()` can build the same keys
+  let clientBaseUrl = baseUrl;
+  
+  /**
+   * Returns the client's base URL; throws while it is unknown, rather than
+   * letting a key be built that no request would use
+   */
+  const requireBaseUrl = (method: string, path: string): string => {
+    if (clientBaseUrl === undefined) {
+      throw new Error(
+        `Cannot build the cache key of ${method} ${path} before the first request; set \`baseUrl\` in the cache config`
+      );
+    }
+    return clientBaseUrl;
+  };
+  
+  /**
+   * Builds the storage key for a request, including the rule namespace if any
+   */
+  const buildKey = (method: string, path: string, input: any): string => {
+    const { namespace } = resolveOptions(method, path);
+    const key = keyGenerator(method, path, input, requireBaseUrl(method, path));
+    return limitKeyLength(namespace ? `${namespace}:${key}` : key, maxKeyLength);
+  };
+  
+  /**
+   * Reads an entry without counting it as a use, when the storage supports it
+   */
+  const peekEntry = (key: string): MaybePromise<CacheEntry | undefined> => {
+    return storage.peek ? storage.peek(key) : storage.get(key);
+  };
+  
+  /**
+   * Deletes an entry on request, reporting it as evicted and invalidated when it existed
+   */
+  const removeEntry = async (key: string, known?: CacheEntry): Promise<void> => {
+    dropInFlight(key);
+    await deleteEntry(key, known);
+  };
+  
+  /**
+   * Deletes an entry like `removeEntry`, but lets a pending fetch for it go on and store its result
+   */
+  const deleteEntry = async (key: string, known?: CacheEntry): Promise<void> => {
+    const entry = known ?? (await peekEntry(key));
+    await storage.delete(key);
+    if (entry) {
+      emit('evict', { ...entryFields(key, entry), reason: 'manual' });
+      emit('invalidate', entryFields(key, entry));
+    }
+  };
+  
+  /**
+   * Deletes the stored entries matching a predicate. Pending fetches do not
+   * store a matching result either; those whose request already matches are
+   * dropped, so later requests start a new fetch instead of joining them.
+   * @returns The number of removed entries
+   */
+  const removeWhere = async (
+    predicate: (entry: CacheEntry) => boolean,
+    matchesRequest: (request: CachedRequest) => boolean = () => false
+  ): Promise<number> => {
+    inFlight.forEach((pending, key) => {
+      if (matchesRequest(pending.request)) {
+        dropInFlight(key);
+      } else {
+        pending.invalidations.push(predicate);
+      }
+    });
+    let removed = 0;
+    for (const key of await storage.keys()) {
+      const entry = await peekEntry(key);
+      if (entry && predicate(entry)) {
+        await removeEntry(key, entry);
+        removed++;
+      }
+    }
+    return removed;
+  };
+  
+  const mutationMapper = invalidateOnMutation === true
+    ? defaultMutationMapper
+    : invalidateOnMutation || undefined;
+  
+  /**
+   * Removes the entries affected by a successful mutation
+   */
+  const invalidateAfterMutation = async (mutation: CachedRequest): Promise<number> => {
+    if (!mutationMapper || !MUTATION_METHODS.includes(mutation.method)) {
+      return 0;
+    }
+    const matchers = ([] as EntryMatcher[]).concat(mutationMapper(mutation));
+    const entryMatchers = matchers.map(createEntryMatcher);
+    const requestMatchers = matchers.map(createRequestMatcher);
+    return removeWhere(
+      (entry) => entryMatchers.some((matches) => matches(entry)),
+      (request) => requestMatchers.some((matches) => matches(request))
+    );
+  };
+  
+  // Pending network requests by cache key, shared between concurrent callers
+  const inFlight = new Map<string, InFlightFetch>();
+  
+  /**
+   * Keeps pending fetches from storing data that an invalidation made outdated.
+   * Later requests start a new fetch instead of joining them.
+   * @param key - Only the fetch for this key; all of them when omitted
+   */
+  const dropInFlight = (key?: string): void => {
+    const dropped = key === undefined ? Array.from(inFlight.values()) : [inFlight.get(key)];
+    dropped.forEach((pending) => {
+      pending?.invalidations.push(() => true);
+    });
+    if (key === undefined) {
+      inFlight.clear();
+    } else {
+      inFlight.delete(key);
+    }
+  };
+  
+  /**
+   * Fetches and stores an entry, reusing the in-flight request for the same key
+   * when there is one. On failure every waiter rejects and nothing is cached.
+   */
+  const fetchOnce = (
+    key: string,
+    request: CachedRequest,
+    fetcher: () => Promise<{ entry: CacheEntry; store: boolean }>
+  ): Promise<CacheEntry> => {
+    const pending = inFlight.get(key);
+    if (pending) {
+      return pending.entry;
+    }
+    
+    const { method, path } = request;
+    const flight = { request, invalidations: [] as InFlightFetch['invalidations'] } as InFlightFetch;
+    const started = Date.now();
+    flight.entry = Promise.resolve()
+      .then(fetcher)
+      .then(
+        async ({ entry, store }) => {
+          const duration = Date.now() - started;
+          // Entries invalidated while the request was in flight may be outdated
+          if (!store || flight.invalidations.some((matches) => matches(entry))) {
+            return entry;
+          }
+          // A failing storage must not fail the request that fetched the data
+          let stored: void | boolean;
+          try {
+            stored = await storage.set(key, entry);
+          } catch (error) {
+            emit('storageError', { key, method, path, timestamp: Date.now(), operation: 'set', error });
+            return entry;
+          }
+          // Only entries the storage kept are reported as stored
+          if (stored !== false) {
+            emit('set', { key, method, path, timestamp: Date.now(), entry, duration });
+          }
+          return entry;
+        },
+        (error) => {
+          const duration = Date.now() - started;
+          emit('fetchError', { key, method, path, timestamp: Date.now(), error, duration });
+          throw error;
+        }
+      )
+      .finally(() => {
+        if (inFlight.get(key) === flight) {
+          inFlight.delete(key);
+        }
+      });
+    
+    inFlight.set(key, flight);
+    return flight.entry;
+  };
+  
+  /**
+   * Fetches and stores the entry of a request through an endpoint handler,
+   * revalidating `previous` with a conditional request when possible
+   */
+  const fetchEntry = (
+    key: string,
+    request: CachedRequest,
+    handler: EndpointHandler,
+    context: HandlerContext,
+    previous?: CacheEntry
+  ): Promise<CacheEntry> => fetchOnce(key, request, async () => {
+    const { input } = request;
+    const options = resolveOptions(request.method, request.path);
+    const tagsFor = (data: unknown) => resolveTags(options.tags, { ...request, data });
+    
+    if (!respectCacheHeaders && !conditionalRequests) {
+      const data = await handler(input, context);
+      const cachedAt = new Date();
+      return {
+        entry: {
+          data,
+          cachedAt,
+          expiresAt: new Date(cachedAt.getTime() + options.ttl * 1000),
+          request,
+          tags: tagsFor(data)
+        },
+        store: true
+      };
+    }
+    
+    const validators = conditionalRequests && previous ? conditionalHeaders(previous) : {};
+    
+    // Record the response so its headers can be read, and answer a
+    // 304 Not Modified with the cached body so the handler still succeeds
+    let response: Response | undefined;
+    let notModified = false;
+    const recordingFetch = async (...[resource, init]: Parameters<typeof fetch>) => {
+      if (Object.keys(validators).length > 0) {
+        const headers = new Headers(
+          init?.headers ?? (resource instanceof Request ? resource.headers : undefined)
+        );
+        for (const [name, value] of Object.entries(validators)) {
+          headers.set(name, value);
+        }
+        init = { ...init, headers };
+      }
+      
+      const result = await context.fetch(resource, init);
+      response = result;
+      if (result.status === 304 && previous) {
+        notModified = true;
+        return new Response(JSON.stringify(previous.data) ?? 'null', {
+          status: 200,
+          headers: { 'content-type': 'application/json' }
+        });
+      }
+      return result;
+    };
+    
+    let data: unknown;
+    try {
+      data = await handler(input, { ...context, fetch: recordingFetch });
+    } catch (error) {
+      if (!notModified) {
+        throw error;
+      }
+    }
+    
+    const cachedAt = new Date();
+    const headers = response?.headers ?? new Headers();
+    const directives = respectCacheHeaders
+      ? parseCacheHeaders(headers, cachedAt.getTime())
+      : { noStore: false, noCache: false };
+    const lifetime = directives.noStore || directives.noCache ? 0 : directives.maxAge ?? options.ttl;
+    const expiresAt = new Date(cachedAt.getTime() + lifetime * 1000);
+    
+    if (notModified && previous) {
+      // Keep the cached data and validators, only extend the expiry
+      return {
+        entry: {
+          ...previous,
+          etag: headers.get('etag') ?? previous.etag,
+          lastModified: headers.get('last-modified') ?? previous.lastModified,
+          mustRevalidate: directives.noCache || undefined,
+          expiresAt
+        },
+        store: !directives.noStore
+      };
+    }
+    
+    return {
+      entry: {
+        data,
+        cachedAt,
+        expiresAt,
+        etag: headers.get('etag') ?? undefined,
+        lastModified: headers.get('last-modified') ?? undefined,
+        mustRevalidate: directives.noCache || undefined,
+        request,
+        tags: tagsFor(data)
+      },
+      store: !directives.noStore
+    };
+  });
+  
+  // Handler and context of the endpoint that last served each method and path
+  const handlers = new Map<string, { handler: EndpointHandler; context: HandlerContext }>();
+  
+  const rememberHandler = ({ method, path }: CachedRequest, handler: EndpointHandler, context: HandlerContext) => {
+    const id = `${method} ${path}`;
+    handlers.delete(id);
+    handlers.set(id, { handler, context });
+    if (handlers.size > MAX_REMEMBERED_HANDLERS) {
+      handlers.delete(handlers.keys().next().value!);
+    }
+  };
+  
+  /**
+   * Fetches a request into the cache unless a fresh entry is already stored
+   */
+  const prefetchOne = async (
+    { method, path, input }: PrefetchRequest,
+    load: PrefetchOptions['load']
+  ): Promise<PrefetchResult> => {
+    const request: CachedRequest = { method, path, input };
+    let key: string | undefined;
+    try {
+      key = buildKey(method, path, input);
+      if (!resolveOptions(method, path).cacheable) {
+        throw new Error(`${method} ${path} is not cached`);
+      }
+      const previous = await peekEntry(key);
+      if (previous && Date.now() < previous.expiresAt.getTime()) {
+        return { request, key, status: 'fresh' };
+      }
+      
+      const known = handlers.get(`${method} ${path}`);
+      if (load) {
+        const context = { fetch: globalThis.fetch, method, path, baseUrl: requireBaseUrl(method, path) };
+        await fetchEntry(key, request, () => load(request), context, previous);
+      } else if (known) {
+        await fetchEntry(key, request, known.handler, known.context, previous);
+      } else {
+        throw new Error(`No handler known for ${method} ${path}; request it once or pass a load function`);
+      }
+      return { request, key, status: 'fetched' };
+    } catch (error) {
+      return { request, key, status: 'failed', error };
+    }
+  };
+  
   return {
     name: 'cache',
     handlerWrapper: <TInput, TOutput, TError>(
-      originalHandler: (
-        input: TInput,
-        context: {
-          fetch: typeof fetch;
-          method: any;
-          path: string;
-          baseUrl: string;
-        }
-      ) => Promise<TOutput>
+      originalHandler: (input: TInput, context: HandlerContext) => Promise<TOutput>
     ) => {
       return async (input: TInput, context) => {
-        // Only cache specified methods
-        if (!methods.includes(context.method)) {
-          return originalHandler(input, context);
+        const options = resolveOptions(context.method, context.path);
+        clientBaseUrl = context.baseUrl ?? '';
+        
+        // Only cache specified methods, unless a rule says otherwise
+        if (!options.cacheable) {
+          const result = await originalHandler(input, context);
+          // The mutation succeeded, so its result is returned even if invalidation fails
+          try {
+            await invalidateAfterMutation({ method: context.method, path: context.path, input });
+          } catch (error) {
+            emit('storageError', {
+              key: buildKey(context.method, context.path, input),
+              method: context.method,
+              path: context.path,
+              timestamp: Date.now(),
+              operation: 'invalidate',
+              error
+            });
+          }
+          return result;
         }
         
-        const cacheKey = keyGenerator(context.method, context.path, input);
+        const cacheKey = buildKey(context.method, context.path, input);
+        const request: CachedRequest = { method: context.method, path: context.path, input };
+        rememberHandler(request, originalHandler, context);
+        const requestFields = () => ({
+          key: cacheKey,
+          method: request.method,
+          path: request.path,
+          timestamp: Date.now()
+        });
+        // Fetches the data again, revalidating `previous` with a conditional request when possible
+        const fetchFresh = (previous?: CacheEntry) =>
+          fetchEntry(cacheKey, request, originalHandler, context, previous);
         
         // Extract the inner type from CachingWrapper<T>
         type InnerType = TOutput extends CachingWrapper<infer U> ? U : TOutput;
         
         // Helper to create the wrapper
         const createWrapper = (
-          data: InnerType,
-          cachedAt: Date,
-          expiresAt: Date
+          entry: CacheEntry,
+          extras: { revalidation?: Promise<TOutput>; fallbackError?: unknown } = {}
         ): TOutput => {
+          const { cachedAt, expiresAt } = entry;
           const wrapper = {
-            data,
+            data: entry.data as InnerType,
             cachedAt,
             expiresAt,
+            revalidation: extras.revalidation,
+            isFallback: 'fallbackError' in extras,
+            error: extras.fallbackError,
             get isStale() {
               return new Date() > expiresAt;
             },
             refresh: async () => {
-              storage.delete(cacheKey);
-              const freshData = await originalHandler(input, context) as unknown as InnerType;
-              const newCachedAt = new Date();
-              const newExpiresAt = new Date(newCachedAt.getTime() + ttl * 1000);
-              
-              storage.set(cacheKey, {
-                data: freshData,
-                cachedAt: newCachedAt,
-                expiresAt: newExpiresAt
-              });
-              
-              return createWrapper(freshData, newCachedAt, newExpiresAt);
+              // A fetch already in flight is joined, so overlapping refreshes and
+              // background revalidations share one request and store its result
+              await deleteEntry(cacheKey, entry);
+              const fresh = await fetchFresh();
+              return createWrapper(fresh);
             },
-            invalidate: () => {
-              storage.delete(cacheKey);
+            invalidate: async () => {
+              await removeEntry(cacheKey, entry);
             }
           } as CachingWrapper<InnerType>;
           
           return wrapper as TOutput;
         };
         
-        // Check cache
-        const cached = storage.get(cacheKey);
+        // Check cache; an unreadable entry counts as a miss
+        let cached: CacheEntry | undefined;
+        try {
+          cached = await storage.get(cacheKey);
+        } catch (error) {
+          emit('storageError', { ...requestFields(), operation: 'get', error });
+        }
         const now = new Date();
         
+        const age = cached ? now.getTime() - cached.cachedAt.getTime() : 0;
+        
         if (cached && now < cached.expiresAt) {
-          return createWrapper(cached.data, cached.cachedAt, cached.expiresAt);
+          emit('hit', { ...requestFields(), age, expiresAt: cached.expiresAt });
+          return createWrapper(cached);
         }
         
-        // Fetch fresh data
-        // originalHandler returns TOutput, but the API actually returns InnerType
-        const result = await originalHandler(input, context) as unknown as InnerType;
-        const cachedAt = new Date();
-        const expiresAt = new Date(cachedAt.getTime() + ttl * 1000);
+        // Entries from `no-cache` responses are never served without revalidation
+        const staleWindows = cached?.mustRevalidate
+          ? { revalidate: 0, error: 0 }
+          : { revalidate: options.staleWhileRevalidate * 1000, error: options.staleIfError * 1000 };
         
-        storage.set(cacheKey, {
-          data: result,
-          cachedAt,
-          expiresAt
-        });
+        // Serve stale data and revalidate in the background
+        if (cached && now.getTime() < cached.expiresAt.getTime() + staleWindows.revalidate) {
+          emit('stale', { ...requestFields(), age, expiresAt: cached.expiresAt, reason: 'revalidate' });
+          const revalidation = fetchFresh(cached)
+            .then((fresh) => createWrapper(fresh));
+          // Failures are reported through the promise; don't surface them as unhandled
+          revalidation.catch(() => {});
+          return createWrapper(cached, { revalidation });
+        }
+        
+        emit('miss', { ...requestFields(), expired: !!cached });
         
-        return createWrapper(result, cachedAt, expiresAt);
+        // Fetch fresh data, joining any identical request already in flight
+        // originalHandler returns TOutput, but the API actually returns InnerType
+        try {
+          const fresh = await fetchFresh(cached);
+          return createWrapper(fresh);
+        } catch (error) {
+          // Fall back to the expired entry while it is within the staleIfError window
+          if (cached && Date.now() < cached.expiresAt.getTime() + staleWindows.error) {
+            emit('stale', {
+              ...requestFields(),
+              age: Date.now() - cached.cachedAt.getTime(),
+              expiresAt: cached.expiresAt,
+              reason: 'error'
+            });
+            return createWrapper(cached, { fallbackError: error });
+          }
+          throw error;
+        }
       };
     },
     methods: {
-      clear: () => {
-        storage.clear();
+      clear: async () => {
+        dropInFlight();
+        // Only the keys are read, so clearing a persistent storage does not load every entry
+        const removed = await storage.keys();
+        await storage.clear();
+        removed.forEach((key) => {
+          emit('evict', { ...entryFields(key), reason: 'clear' });
+        });
+        // Forget entries the storage dropped without reporting them
+        statistics.cleared();
+      },
+      invalidate: async (method: string, path: string, input: any) => {
+        await removeEntry(buildKey(method, path, input));
+      },
+      invalidateKey: async (key: string) => {
+        await removeEntry(key);
+      },
+      /**
+       * Removes every entry carrying at least one of the given tags
+       * @returns The number of removed entries
+       */
+      invalidateTags: (tagsToRemove: string[]): Promise<number> => {
+        return removeWhere((entry) => !!entry.tags?.some((tag) => tagsToRemove.includes(tag)));
+      },
+      /**
+       * Removes every entry whose original request matches a path glob, RegExp or predicate.
+       * Entries stored without request details (e.g. by older versions) are kept.
+       * @returns The number of removed entries
+       */
+      invalidateMatching: (matcher: EntryMatcher): Promise<number> => {
+        const matches = createEntryMatcher(matcher);
+        return removeWhere((entry) => matches(entry), createRequestMatcher(matcher));
+      },
+      /**
+       * Copies the fresh entries into a JSON-safe snapshot for `hydrate()`
+       * @param matcher - Only include entries whose request matches a path glob, RegExp or predicate
+       */
+      dehydrate: (matcher?: EntryMatcher): Promise<CacheSnapshot> => {
+        return dehydrateStorage(storage, matcher === undefined ? undefined : createEntryMatcher(matcher));
+      },
+      /**
+       * Loads the fresh entries of a `dehydrate()` snapshot, keeping newer entries
+       * already stored. Throws for snapshots of another format version.
+       */
+      hydrate: (snapshot: CacheSnapshot): Promise<HydrateResult> => {
+        return hydrateStorage(storage, snapshot);
+      },
+      /**
+       * Describes every stored entry, without affecting eviction order
+       */
+      inspect: async (): Promise<CacheEntryInfo[]> => {
+        const now = Date.now();
+        const entries: CacheEntryInfo[] = [];
+        for (const key of await storage.keys()) {
+          const entry = await peekEntry(key);
+          if (!entry) {
+            continue;
+          }
+          const ttl = entry.expiresAt.getTime() - now;
+          entries.push({
+            key,
+            method: entry.request?.method,
+            path: entry.request?.path,
+            input: entry.request?.input,
+            cachedAt: entry.cachedAt,
+            expiresAt: entry.expiresAt,
+            ttl,
+            isStale: ttl <= 0,
+            size: sizeOf(entry),
+            hits: statistics.hitsFor(key),
+            tags: entry.tags
+          });
+        }
+        return entries;
+      },
+      /**
+       * Reads the entry of a request, fresh or not, without affecting eviction
+       * order or fetching anything
+       */
+      peek: async (method: string, path: string, input: any): Promise<CacheEntry | undefined> => {
+        return peekEntry(buildKey(method, path, input));
+      },
+      /**
+       * Warms the cache for one or many requests. Requests with a fresh entry are
+       * skipped and identical requests already in flight are joined.
+       * @returns The outcome of every request, in order; never rejects
+       */
+      prefetch: (
+        requests: PrefetchRequest | PrefetchRequest[],
+        options: PrefetchOptions = {}
+      ): Promise<PrefetchResult[]> => {
+        const { concurrency = 6, load } = options;
+        return mapWithConcurrency(
+          Array.isArray(requests) ? requests : [requests],
+          concurrency,
+          (request) => prefetchOne(request, load)
+        );
+      },
+      /**
+       * Returns hit, miss, stale and eviction counts, entry counts and fetch
+       * durations, in total and per method and path pattern
+       */
+      stats: (): CacheStats => {
+        return statistics.stats();
+      },
+      /**
+       * Resets the counters and durations; entry counts are kept
+       */
+      resetStats: (): void => {
+        statistics.reset();
       },
-      invalidate: (method: string, path: string, input: any) => {
-        const key = keyGenerator(method, path, input);
-        storage.delete(key);
+      /**
+       * Adds a listener for a cache event type
+       * @returns Function removing the listener
+       */
+      subscribe: <T extends CacheEventType>(type: T, listener: CacheEventListener<T>): (() => void) => {
+        return events.on(type, listener);
       },
-      invalidateKey: (key: string) => {
-        storage.delete(key);
+      /**
+       * Removes a listener added with `subscribe()`
+       */
+      unsubscribe: <T extends CacheEventType>(type: T, listener: CacheEventListener<T>): void => {
+        events.off(type, listener);
       }
     }
   };
@@ -356,12 +1612,12 @@ export const cache = createPlugin('cache', (config?: CachePluginConfig) => {
  * ```typescript
  * import { clearCache } from 'endpoint-fetcher-cache';
  * 
- * clearCache(); // Clears all cached data
+ * await clearCache(storage); // Clears all cached data
  * ```
  */
-export const clearCache = (storage?: CacheStorage) => {
+export const clearCache = async (storage?: CacheStorage) => {
   if (storage) {
-    storage.clear();
+    await storage.clear();
   }
 };
 
@@ -0,0 +1,99 @@
+/**
+ * Description of a cached entry returned by `inspect()`
+ */
+export interface CacheEntryInfo {
+  key: string;
+  /** Method of the request that produced the entry, if stored with it */
+  method?: string;
+  /** Path of the request that produced the entry, if stored with it */
+  path?: string;
+  /** Input of the request that produced the entry, if stored with it */
+  input?: any;
+  cachedAt: Date;
+  expiresAt: Date;
+  /** Milliseconds until the entry expires; negative once it has expired */
+  ttl: number;
+  isStale: boolean;
+  /** Approximate size in bytes, as measured by the plugin's `sizeOf` */
+  size: number;
+  /** Times the entry was served since this plugin instance stored it */
+  hits: number;
+  tags?: string[];
+}
+
+/**
+ * Options for `formatEntryTable`
+ */
+export type EntryTableOptions = {
+  /**
+   * Longer cell values are shortened with an ellipsis
+   * @default 48
+   */
+  maxColumnWidth?: number;
+};
+
+/**
+ * Formats milliseconds as a short duration, e.g. `950ms`, `42s`, `3m 5s`, `2h 10m`
+ */
+const formatDuration = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 1) {
+    return `${Math.round(ms)}ms`;
+  }
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+/**
+ * Formats a byte count, e.g. `512 B`, `1.5 KB`, `2.0 MB`
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Renders entries from `inspect()` as a plain-text table for console output
+ * 
+ * @example
+ * ```typescript
+ * console.log(formatEntryTable(await api.plugins.cache.inspect()));
+ * // Key                              Method  Path      Cached at                 Expires in  Size    Hits
+ * // -------------------------------  ------  --------  ------------------------  ----------  ------  ----
+ * // GET:https://api.example.com/...  GET     /users/7  2024-06-01T10:00:00.000Z  4m 12s      1.2 KB  3
+ * ```
+ */
+export const formatEntryTable = (entries: CacheEntryInfo[], options: EntryTableOptions = {}): string => {
+  const { maxColumnWidth = 48 } = options;
+  const shorten = (value: string) =>
+    value.length > maxColumnWidth ? `${value.slice(0, Math.max(0, maxColumnWidth - 1))}…` : value;
+  
+  const header = ['Key', 'Method', 'Path', 'Cached at', 'Expires in', 'Size', 'Hits'];
+  const rows = entries.map((entry) => [
+    entry.key,
+    entry.method ?? '-',
+    entry.path ?? '-',
+    entry.cachedAt.toISOString(),
+    entry.ttl > 0 ? formatDuration(entry.ttl) : `expired ${formatDuration(-entry.ttl)} ago`,
+    formatBytes(entry.size),
+    String(entry.hits)
+  ].map(shorten));
+  
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  
+  return [line(header), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)].join('\n');
+};
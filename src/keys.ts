@@ -0,0 +1,109 @@
+/**
+ * Serializes a value deterministically for use in cache keys
+ * 
+ * Unlike `JSON.stringify`, object keys are sorted (so `{a:1,b:2}` and `{b:2,a:1}` match),
+ * `Date`, `Map`, `Set` and `BigInt` values keep their content, and cycles don't throw.
+ */
+export const canonicalStringify = (value: unknown): string => {
+  const ancestors = new Set<object>();
+  
+  const serialize = (item: unknown): string => {
+    switch (typeof item) {
+      case 'string':
+        return JSON.stringify(item);
+      case 'number':
+        return Number.isFinite(item) ? String(item) : `Number(${item})`;
+      case 'bigint':
+        return `${item}n`;
+      case 'boolean':
+        return String(item);
+      case 'undefined':
+        return 'undefined';
+      case 'object':
+        break;
+      default:
+        // Functions and symbols carry no request data
+        return 'undefined';
+    }
+    
+    if (item === null) {
+      return 'null';
+    }
+    if (ancestors.has(item)) {
+      return '[Circular]';
+    }
+    if (item instanceof Date) {
+      return `Date(${Number.isNaN(item.getTime()) ? 'Invalid' : item.toISOString()})`;
+    }
+    
+    ancestors.add(item);
+    let result: string;
+    if (Array.isArray(item)) {
+      result = `[${item.map(serialize).join(',')}]`;
+    } else if (item instanceof Map) {
+      const entries = Array.from(item, ([key, val]) => `${serialize(key)}=>${serialize(val)}`);
+      result = `Map{${entries.sort().join(',')}}`;
+    } else if (item instanceof Set) {
+      result = `Set[${Array.from(item, serialize).sort().join(',')}]`;
+    } else {
+      const entries = Object.keys(item)
+        .sort()
+        .filter((key) => (item as Record<string, unknown>)[key] !== undefined)
+        .map((key) => `${JSON.stringify(key)}:${serialize((item as Record<string, unknown>)[key])}`);
+      result = `{${entries.join(',')}}`;
+    }
+    ancestors.delete(item);
+    return result;
+  };
+  
+  return serialize(value);
+};
+
+/**
+ * Fast non-cryptographic 128-bit string hash (cyrb128), as 32 hex characters
+ */
+export const hashKey = (value: string): string => {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ code, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ code, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ code, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ code, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1, h2, h3, h4].map((h) => (h >>> 0).toString(16).padStart(8, '0')).join('');
+};
+
+/**
+ * Shortens keys longer than `maxLength` to exactly `maxLength` characters:
+ * a readable prefix followed by `#` and the hash of the full key. When
+ * `maxLength` leaves no room for the `#`, the hash itself is cut to fit.
+ */
+export const limitKeyLength = (key: string, maxLength: number): string => {
+  if (key.length <= maxLength) {
+    return key;
+  }
+  const hash = hashKey(key);
+  if (maxLength <= hash.length) {
+    return hash.slice(0, maxLength);
+  }
+  return `${key.slice(0, maxLength - hash.length - 1)}#${hash}`;
+};
+
+/**
+ * Default cache key generator: `${method}:${baseUrl}${path}:${canonicalStringify(input)}`
+ */
+export const defaultKeyGenerator = (method: string, path: string, input: any, baseUrl = ''): string => {
+  const inputStr = input === undefined || input === null 
+    ? '' 
+    : canonicalStringify(input);
+  return `${method}:${baseUrl}${path}:${inputStr}`;
+};
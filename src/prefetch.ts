@@ -0,0 +1,64 @@
+/**
+ * A request to warm the cache for
+ */
+export interface PrefetchRequest {
+  method: string;
+  path: string;
+  input?: any;
+}
+
+/**
+ * Options for `prefetch()`
+ */
+export type PrefetchOptions = {
+  /**
+   * Maximum number of requests fetched at the same time
+   * @default 6
+   */
+  concurrency?: number;
+  
+  /**
+   * Loads the data of a request. By default the handler of the endpoint that
+   * last served the same method and path is reused, which requires the path to
+   * have been requested through the client before.
+   */
+  load?: (request: PrefetchRequest) => Promise<unknown>;
+};
+
+/**
+ * Outcome of prefetching one request
+ * - `fetched`: the data was fetched, or an identical request in flight was joined
+ * - `fresh`: a fresh entry was already cached, so nothing was fetched
+ * - `failed`: the request could not be cached; see `error`
+ */
+export interface PrefetchResult {
+  request: PrefetchRequest;
+  /** Cache key of the request; missing when it could not be built */
+  key?: string;
+  status: 'fetched' | 'fresh' | 'failed';
+  error?: unknown;
+}
+
+/**
+ * Runs a task for every item with at most `limit` tasks pending at once.
+ * A limit that is not a finite number runs all tasks at once; others are
+ * rounded down to at least 1.
+ * @returns The task results, in the order of the items
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  const workers = Number.isFinite(limit) ? Math.max(1, Math.min(Math.floor(limit), items.length)) : items.length;
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+};
@@ -0,0 +1,68 @@
+import type { CacheEntry } from './index';
+
+/**
+ * Serializes a value to JSON, encoding every `Date` as `{ "$date": "<ISO string>" }`
+ * so `parseValue` can revive it
+ */
+export const stringifyValue = (value: unknown): string => {
+  return JSON.stringify(value, function (this: any, key: string, converted: unknown) {
+    // `converted` has already been through Date.prototype.toJSON, so check the original
+    const original = this[key];
+    if (original instanceof Date) {
+      return { $date: Number.isNaN(original.getTime()) ? null : original.toISOString() };
+    }
+    return converted;
+  });
+};
+
+/**
+ * Parses JSON written by `stringifyValue`, restoring its `Date` values.
+ * Throws on malformed input, like `JSON.parse`.
+ */
+export const parseValue = (text: string): any => {
+  return JSON.parse(text, (_key, value) => {
+    if (
+      value !== null &&
+      typeof value === 'object' &&
+      '$date' in value &&
+      Object.keys(value).length === 1
+    ) {
+      return new Date(value.$date ?? NaN);
+    }
+    return value;
+  });
+};
+
+/**
+ * Serializes a cache entry to JSON, encoding every `Date` (including those inside
+ * the cached data) as `{ "$date": "<ISO string>" }` so it can be revived
+ */
+export const serializeEntry = (entry: CacheEntry): string => {
+  return stringifyValue(entry);
+};
+
+/**
+ * Parses an entry written by `serializeEntry`, restoring its `Date` values.
+ * Returns `undefined` for malformed input, including invalid dates in
+ * `cachedAt` or `expiresAt`, instead of throwing.
+ */
+export const deserializeEntry = (text: string): CacheEntry | undefined => {
+  let entry: any;
+  try {
+    entry = parseValue(text);
+  } catch {
+    return undefined;
+  }
+  
+  if (
+    entry === null ||
+    typeof entry !== 'object' ||
+    !(entry.cachedAt instanceof Date) ||
+    !(entry.expiresAt instanceof Date) ||
+    Number.isNaN(entry.cachedAt.getTime()) ||
+    Number.isNaN(entry.expiresAt.getTime())
+  ) {
+    return undefined;
+  }
+  return entry;
+};
@@ -0,0 +1,96 @@
+import type { CacheEntry, CacheStorage } from './index';
+import { deserializeEntry, stringifyValue } from './serialization';
+
+/**
+ * Version of the snapshot format written by `dehydrate()`; snapshots with
+ * another version are rejected by `hydrate()`
+ */
+export const CACHE_SNAPSHOT_VERSION = 1;
+
+/**
+ * JSON-safe copy of cache entries, for transfer from a server-side render to
+ * the browser or between processes
+ */
+export interface CacheSnapshot {
+  version: number;
+  /** When the snapshot was taken, as an ISO string */
+  createdAt: string;
+  /**
+   * Entries by cache key, as JSON values in which every `Date` is encoded as
+   * `{ "$date": "<ISO string>" }`
+   */
+  entries: Array<{ key: string; entry: unknown }>;
+}
+
+/**
+ * Outcome of `hydrate()`
+ */
+export interface HydrateResult {
+  /** Entries written to the storage */
+  loaded: number;
+  /**
+   * Entries left out because they expired, were malformed, the storage held a
+   * newer one, or the storage refused them
+   */
+  skipped: number;
+}
+
+/**
+ * Copies the fresh entries of a storage, optionally filtered, into a snapshot
+ */
+export const dehydrateStorage = async (
+  storage: CacheStorage,
+  filter: (entry: CacheEntry, key: string) => boolean = () => true
+): Promise<CacheSnapshot> => {
+  const now = Date.now();
+  const entries: CacheSnapshot['entries'] = [];
+  for (const key of await storage.keys()) {
+    const entry = await (storage.peek ? storage.peek(key) : storage.get(key));
+    if (entry && now < entry.expiresAt.getTime() && filter(entry, key)) {
+      entries.push({ key, entry: JSON.parse(stringifyValue(entry)) });
+    }
+  }
+  return { version: CACHE_SNAPSHOT_VERSION, createdAt: new Date(now).toISOString(), entries };
+};
+
+/**
+ * Writes the fresh entries of a snapshot to a storage. An entry is not written
+ * when the storage already holds one cached at the same time or later.
+ * Throws for a snapshot of another version or shape, before writing anything.
+ */
+export const hydrateStorage = async (storage: CacheStorage, snapshot: CacheSnapshot): Promise<HydrateResult> => {
+  if (snapshot === null || typeof snapshot !== 'object') {
+    throw new Error('Invalid cache snapshot');
+  }
+  if (snapshot.version !== CACHE_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported cache snapshot version ${String(snapshot.version)}; expected ${CACHE_SNAPSHOT_VERSION}`
+    );
+  }
+  if (!Array.isArray(snapshot.entries)) {
+    throw new Error('Invalid cache snapshot: entries must be an array');
+  }
+  
+  const now = Date.now();
+  const result: HydrateResult = { loaded: 0, skipped: 0 };
+  for (const item of snapshot.entries) {
+    const entry = typeof item?.key === 'string' ? deserializeEntry(JSON.stringify(item.entry)) : undefined;
+    if (!entry || now >= entry.expiresAt.getTime()) {
+      result.skipped++;
+      continue;
+    }
+    
+    const existing = await (storage.peek ? storage.peek(item.key) : storage.get(item.key));
+    if (existing && existing.cachedAt.getTime() >= entry.cachedAt.getTime()) {
+      result.skipped++;
+      continue;
+    }
+    
+    if ((await storage.set(item.key, entry)) === false) {
+      result.skipped++;
+    } else {
+      result.loaded++;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,323 @@
+import type {
+  CacheEventMap,
+  CacheEventType,
+  CacheEvictEvent,
+  CacheEvictionReason,
+  CacheFetchErrorEvent,
+  CacheHitEvent,
+  CacheSetEvent
+} from './events';
+
+/**
+ * Upper bounds, in milliseconds, of the fetch duration histogram buckets
+ */
+export const FETCH_DURATION_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Distribution of fetch durations
+ */
+export interface FetchDurationStats {
+  count: number;
+  /** Total milliseconds */
+  sum: number;
+  /** Cumulative number of fetches that took at most `le` milliseconds */
+  buckets: Array<{ le: number; count: number }>;
+}
+
+/**
+ * Counters shared by the totals and each endpoint
+ */
+export interface CacheCounters {
+  /** Fresh entries served */
+  hits: number;
+  /** Requests that found no usable entry */
+  misses: number;
+  /** Expired entries served (`staleWhileRevalidate` or `staleIfError`) */
+  stale: number;
+  /** Entries removed by the storage or by invalidation, by reason */
+  evictions: Record<CacheEvictionReason, number>;
+  /** Entries currently stored through this plugin instance */
+  entries: number;
+  /** Failed fetches */
+  fetchErrors: number;
+}
+
+/**
+ * Statistics of the requests matching one method and path pattern
+ */
+export interface CacheEndpointStats extends CacheCounters {
+  method: string;
+  /** Rule pattern or normalized path, e.g. `/users/:id` */
+  pattern: string;
+  /** Durations of fetches, successful or not */
+  fetchDuration: FetchDurationStats;
+}
+
+/**
+ * Cache statistics returned by `stats()`
+ */
+export interface CacheStats extends CacheCounters {
+  /** `hits / (hits + misses)`, or 0 before the first request */
+  hitRatio: number;
+  endpoints: CacheEndpointStats[];
+}
+
+const emptyEvictions = (): Record<CacheEvictionReason, number> => ({
+  capacity: 0,
+  expired: 0,
+  oversized: 0,
+  manual: 0,
+  clear: 0
+});
+
+const emptyDuration = (): FetchDurationStats => ({
+  count: 0,
+  sum: 0,
+  buckets: FETCH_DURATION_BUCKETS.map((le) => ({ le, count: 0 }))
+});
+
+// Path segments that look like identifiers: numbers, UUIDs and long hex strings
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,})$/i;
+
+/**
+ * Turns a request path into a low-cardinality pattern: the query string is
+ * dropped and identifier-like segments become `:id`
+ */
+export const normalizePathPattern = (path: string): string => {
+  return path
+    .split('?')[0]
+    .split('/')
+    .map((segment) => (ID_SEGMENT.test(segment) ? ':id' : segment))
+    .join('/');
+};
+
+type Counter = 'hits' | 'misses' | 'stale' | 'fetchErrors';
+
+// Counter of each request outcome
+const OUTCOME_COUNTERS = { hit: 'hits', miss: 'misses', stale: 'stale' } as const;
+
+/**
+ * Collects cache statistics from the plugin's lifecycle events
+ */
+export class CacheStatsCollector {
+  private endpoints = new Map<string, CacheEndpointStats>();
+  private totals: CacheCounters = {
+    hits: 0,
+    misses: 0,
+    stale: 0,
+    evictions: emptyEvictions(),
+    entries: 0,
+    fetchErrors: 0
+  };
+  // Endpoint of every entry stored through the plugin, for the entry counts
+  private entryEndpoints = new Map<string, CacheEndpointStats>();
+  // Times each stored entry was served
+  private entryHits = new Map<string, number>();
+  
+  constructor(private patternFor: (method: string, path: string) => string) {}
+  
+  record<T extends CacheEventType>(type: T, event: CacheEventMap[T]): void {
+    switch (type as CacheEventType) {
+      case 'hit':
+      case 'miss':
+      case 'stale': {
+        const { key, method, path } = event as CacheHitEvent;
+        if (type !== 'miss') {
+          this.entryHits.set(key, (this.entryHits.get(key) ?? 0) + 1);
+        }
+        this.increment(this.endpoint(method, path), OUTCOME_COUNTERS[type as keyof typeof OUTCOME_COUNTERS]);
+        break;
+      }
+      case 'set': {
+        const { key, method, path, duration } = event as CacheSetEvent;
+        const endpoint = this.endpoint(method, path);
+        this.observe(endpoint, duration);
+        this.entryHits.set(key, 0);
+        if (!this.entryEndpoints.has(key)) {
+          this.entryEndpoints.set(key, endpoint);
+          endpoint.entries++;
+          this.totals.entries++;
+        }
+        break;
+      }
+      case 'fetchError': {
+        const { method, path, duration } = event as CacheFetchErrorEvent;
+        const endpoint = this.endpoint(method, path);
+        this.observe(endpoint, duration);
+        this.increment(endpoint, 'fetchErrors');
+        break;
+      }
+      case 'evict': {
+        const { key, method, path, reason } = event as CacheEvictEvent;
+        const stored = this.forget(key);
+        const endpoint = stored ?? (method && path ? this.endpoint(method, path) : undefined);
+        if (endpoint) {
+          endpoint.evictions[reason]++;
+        }
+        this.totals.evictions[reason]++;
+        break;
+      }
+    }
+  }
+  
+  /**
+   * The storage was cleared without reporting each entry
+   */
+  cleared(): void {
+    this.entryEndpoints.forEach((_endpoint, key) => this.forget(key));
+    this.entryHits.clear();
+  }
+  
+  /**
+   * Times the entry stored under a key was served since it was stored
+   */
+  hitsFor(key: string): number {
+    return this.entryHits.get(key) ?? 0;
+  }
+  
+  stats(): CacheStats {
+    const { hits, misses } = this.totals;
+    const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+    return {
+      ...copy(this.totals),
+      hitRatio: hits + misses === 0 ? 0 : hits / (hits + misses),
+      endpoints: Array.from(this.endpoints.values(), copy)
+    };
+  }
+  
+  /**
+   * Resets every counter; entry counts reflect the storage and are kept
+   */
+  reset(): void {
+    const resetCounters = (counters: CacheCounters) => {
+      counters.hits = 0;
+      counters.misses = 0;
+      counters.stale = 0;
+      counters.evictions = emptyEvictions();
+      counters.fetchErrors = 0;
+    };
+    resetCounters(this.totals);
+    this.endpoints.forEach((endpoint) => {
+      resetCounters(endpoint);
+      endpoint.fetchDuration = emptyDuration();
+    });
+  }
+  
+  private forget(key: string): CacheEndpointStats | undefined {
+    this.entryHits.delete(key);
+    const endpoint = this.entryEndpoints.get(key);
+    if (endpoint) {
+      this.entryEndpoints.delete(key);
+      endpoint.entries--;
+      this.totals.entries--;
+    }
+    return endpoint;
+  }
+  
+  private endpoint(method: string, path: string): CacheEndpointStats {
+    const pattern = this.patternFor(method, path);
+    const id = `${method} ${pattern}`;
+    let endpoint = this.endpoints.get(id);
+    if (!endpoint) {
+      endpoint = {
+        method,
+        pattern,
+        hits: 0,
+        misses: 0,
+        stale: 0,
+        evictions: emptyEvictions(),
+        entries: 0,
+        fetchErrors: 0,
+        fetchDuration: emptyDuration()
+      };
+      this.endpoints.set(id, endpoint);
+    }
+    return endpoint;
+  }
+  
+  private increment(endpoint: CacheEndpointStats, counter: Counter): void {
+    endpoint[counter]++;
+    this.totals[counter]++;
+  }
+  
+  private observe(endpoint: CacheEndpointStats, duration: number): void {
+    const histogram = endpoint.fetchDuration;
+    histogram.count++;
+    histogram.sum += duration;
+    histogram.buckets.forEach((bucket) => {
+      if (duration <= bucket.le) {
+        bucket.count++;
+      }
+    });
+  }
+}
+
+/**
+ * Escapes a Prometheus label value
+ */
+const labelValue = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+};
+
+/**
+ * Serializes cache statistics in the Prometheus text exposition format
+ * 
+ * @param stats - Statistics from the plugin's `stats()` method
+ * @param prefix - Prefix of the metric names
+ * 
+ * @example
+ * ```typescript
+ * app.get('/metrics', (req, res) => {
+ *   res.type('text/plain; version=0.0.4').send(toPrometheus(api.plugins.cache.stats()));
+ * });
+ * ```
+ */
+export const toPrometheus = (stats: CacheStats, prefix = 'endpoint_fetcher_cache'): string => {
+  const lines: string[] = [];
+  const labels = (endpoint: CacheEndpointStats, extra = '') =>
+    `{method="${labelValue(endpoint.method)}",pattern="${labelValue(endpoint.pattern)}"${extra}}`;
+  
+  const metric = (
+    name: string,
+    type: 'counter' | 'gauge',
+    help: string,
+    value: (endpoint: CacheEndpointStats) => number
+  ) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+    for (const endpoint of stats.endpoints) {
+      lines.push(`${prefix}_${name}${labels(endpoint)} ${value(endpoint)}`);
+    }
+  };
+  
+  metric('hits_total', 'counter', 'Fresh cache entries served.', (endpoint) => endpoint.hits);
+  metric('misses_total', 'counter', 'Requests without a usable cache entry.', (endpoint) => endpoint.misses);
+  metric('stale_total', 'counter', 'Expired cache entries served.', (endpoint) => endpoint.stale);
+  metric('fetch_errors_total', 'counter', 'Failed fetches.', (endpoint) => endpoint.fetchErrors);
+  metric('entries', 'gauge', 'Cache entries currently stored.', (endpoint) => endpoint.entries);
+  
+  lines.push(
+    `# HELP ${prefix}_evictions_total Cache entries removed, by reason.`,
+    `# TYPE ${prefix}_evictions_total counter`
+  );
+  for (const endpoint of stats.endpoints) {
+    for (const [reason, count] of Object.entries(endpoint.evictions)) {
+      lines.push(`${prefix}_evictions_total${labels(endpoint, `,reason="${reason}"`)} ${count}`);
+    }
+  }
+  
+  const histogram = `${prefix}_fetch_duration_seconds`;
+  lines.push(`# HELP ${histogram} Duration of fetches.`, `# TYPE ${histogram} histogram`);
+  for (const endpoint of stats.endpoints) {
+    const { buckets, sum, count } = endpoint.fetchDuration;
+    for (const bucket of buckets) {
+      lines.push(`${histogram}_bucket${labels(endpoint, `,le="${bucket.le / 1000}"`)} ${bucket.count}`);
+    }
+    lines.push(
+      `${histogram}_bucket${labels(endpoint, ',le="+Inf"')} ${count}`,
+      `${histogram}_sum${labels(endpoint)} ${sum / 1000}`,
+      `${histogram}_count${labels(endpoint)} ${count}`
+    );
+  }
+  
+  return `${lines.join('\n')}\n`;
+};
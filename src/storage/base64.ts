@@ -0,0 +1,24 @@
+/**
+ * Base64 helpers for storing binary payloads in string-only backends.
+ * Uses `btoa` / `atob`, available in browsers and Node.js 16+.
+ */
+
+// Keeps `String.fromCharCode` arguments well below engine limits
+const CHUNK_SIZE = 0x8000;
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
@@ -0,0 +1,135 @@
+import type { CacheEntry, CacheStorage } from '../index';
+import { parseValue, stringifyValue } from '../serialization';
+import { fromBase64, toBase64 } from './base64';
+
+/**
+ * Formats supported by `CompressionStream` in browsers and Node.js 18+
+ */
+export type CompressionCodec = 'gzip' | 'deflate' | 'deflate-raw';
+
+/**
+ * Options for the compressing storage wrapper
+ */
+export type CompressedCacheStorageOptions = {
+  /**
+   * Compression format
+   * @default 'gzip'
+   */
+  codec?: CompressionCodec;
+  
+  /**
+   * Size of the JSON-encoded data, in bytes, below which data is stored uncompressed
+   * @default 1024
+   */
+  threshold?: number;
+};
+
+/**
+ * Entry as written to the wrapped storage
+ */
+export interface CompressedCacheEntry extends CacheEntry {
+  /**
+   * Codec the data was compressed with; `data` then holds the compressed
+   * JSON as a base64 string. Absent for data stored as-is.
+   */
+  codec?: CompressionCodec;
+}
+
+/**
+ * Runs bytes through a compression or decompression stream
+ */
+const transform = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> => {
+  const output = new Response(bytes).body!.pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+/**
+ * Storage wrapper that compresses `data` before it reaches the wrapped storage
+ * and decompresses it on read
+ * 
+ * - Data is JSON-encoded (keeping `Date`s) and compressed with `CompressionStream`,
+ *   then stored as base64, so string-only backends like `localStorage` work too
+ * - Data smaller than `threshold` is stored as-is
+ * - Stored entries record their `codec`; `cachedAt`, `expiresAt` and the other
+ *   fields stay uncompressed, so the wrapped storage can still expire and evict
+ * - Entries that fail to decompress are removed and reported as missing
+ * 
+ * @example
+ * ```typescript
+ * cache({
+ *   ttl: 3600,
+ *   storage: new CompressedCacheStorage(
+ *     new WebStorageCacheStorage(localStorage),
+ *     { threshold: 2048 }
+ *   )
+ * });
+ * ```
+ */
+export class CompressedCacheStorage implements CacheStorage {
+  private codec: CompressionCodec;
+  private threshold: number;
+  
+  constructor(private storage: CacheStorage, options: CompressedCacheStorageOptions = {}) {
+    this.codec = options.codec ?? 'gzip';
+    this.threshold = options.threshold ?? 1024;
+  }
+  
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.decode(key, await this.storage.get(key));
+  }
+  
+  async peek(key: string): Promise<CacheEntry | undefined> {
+    const storage = this.storage;
+    return this.decode(key, await (storage.peek ? storage.peek(key) : storage.get(key)));
+  }
+  
+  async set(key: string, value: CacheEntry): Promise<void | boolean> {
+    // `undefined` data has no JSON form
+    const json = stringifyValue(value.data) as string | undefined;
+    const bytes = json === undefined ? undefined : new TextEncoder().encode(json);
+    if (!bytes || bytes.length < this.threshold) {
+      return this.storage.set(key, value);
+    }
+    
+    const compressed = await transform(bytes, new CompressionStream(this.codec));
+    const stored: CompressedCacheEntry = {
+      ...value,
+      data: toBase64(compressed),
+      codec: this.codec
+    };
+    return this.storage.set(key, stored);
+  }
+  
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+  
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+  
+  async keys(): Promise<string[]> {
+    return this.storage.keys();
+  }
+  
+  /**
+   * Decompresses the data of a stored entry; entries that fail are removed
+   */
+  private async decode(key: string, stored: CompressedCacheEntry | undefined): Promise<CacheEntry | undefined> {
+    if (!stored?.codec) {
+      return stored;
+    }
+    
+    const { codec, data, ...entry } = stored;
+    try {
+      const bytes = await transform(fromBase64(data), new DecompressionStream(codec));
+      return { ...entry, data: parseValue(new TextDecoder().decode(bytes)) };
+    } catch {
+      await this.storage.delete(key);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import type { CacheEntry, CacheStorage } from '../index';
+import { parseValue, stringifyValue } from '../serialization';
+import { fromBase64, toBase64 } from './base64';
+
+/**
+ * A WebCrypto `CryptoKey`, described structurally so no DOM types are needed
+ */
+export interface CryptoKeyLike {
+  readonly type: string;
+  readonly algorithm: unknown;
+}
+
+/**
+ * AES-GCM parameters passed to `encrypt` / `decrypt`
+ */
+interface AesGcmParams {
+  name: 'AES-GCM';
+  iv: Uint8Array;
+  additionalData?: Uint8Array;
+}
+
+/**
+ * The part of the WebCrypto API (`globalThis.crypto`, or `webcrypto` from
+ * `node:crypto`) used by the wrapper
+ */
+export interface WebCryptoLike {
+  getRandomValues<T extends Uint8Array>(array: T): T;
+  subtle: {
+    importKey(
+      format: 'raw',
+      keyData: Uint8Array,
+      algorithm: 'AES-GCM',
+      extractable: boolean,
+      keyUsages: Array<'encrypt' | 'decrypt'>
+    ): Promise<CryptoKeyLike>;
+    encrypt(algorithm: AesGcmParams, key: CryptoKeyLike, data: Uint8Array): Promise<ArrayBuffer>;
+    decrypt(algorithm: AesGcmParams, key: CryptoKeyLike, data: Uint8Array): Promise<ArrayBuffer>;
+  };
+}
+
+/**
+ * Options for the encrypting storage wrapper
+ */
+export type EncryptedCacheStorageOptions = {
+  /**
+   * AES-GCM key: a `CryptoKey` allowed to encrypt and decrypt, or 16, 24 or 32 raw bytes
+   */
+  key: CryptoKeyLike | Uint8Array;
+  
+  /**
+   * Identifies the key; stored with each entry so entries written with another
+   * key are recognized and discarded
+   */
+  keyId: string;
+  
+  /**
+   * WebCrypto implementation
+   * @default globalThis.crypto
+   */
+  crypto?: WebCryptoLike;
+};
+
+/**
+ * Entry as written to the wrapped storage: everything except `cachedAt` and
+ * `expiresAt` is encrypted into `data`
+ */
+export interface EncryptedCacheEntry {
+  cachedAt: Date;
+  expiresAt: Date;
+  /**
+   * Base64 AES-GCM ciphertext of the remaining entry fields
+   */
+  data: string;
+  /**
+   * Identifier of the key the entry was encrypted with
+   */
+  keyId: string;
+  /**
+   * Base64 initialization vector, unique per write
+   */
+  iv: string;
+}
+
+// Recommended AES-GCM IV length, in bytes
+const IV_LENGTH = 12;
+
+/**
+ * Storage wrapper that encrypts entries with AES-GCM before they reach the
+ * wrapped storage, so persisted responses never sit in plaintext
+ * 
+ * - The data, request, tags and validators are encrypted; `cachedAt` and
+ *   `expiresAt` stay readable so the wrapped storage can still expire and evict
+ * - Each entry stores the key ID and a fresh random IV next to the ciphertext
+ * - The cache key is bound to the ciphertext, so an entry copied under another
+ *   key does not decrypt
+ * - Entries that fail to decrypt (another key ID, a rotated key, tampering, or
+ *   plaintext written without the wrapper) are removed and reported as missing;
+ *   a missing WebCrypto or an unusable key throws and leaves entries alone
+ * - Cache keys, which contain the path and input of requests, are not
+ *   encrypted: they reach the wrapped storage as they are
+ * 
+ * To combine with compression, compress first:
+ * `new CompressedCacheStorage(new EncryptedCacheStorage(storage, options))`.
+ * 
+ * @example
+ * ```typescript
+ * cache({
+ *   ttl: 3600,
+ *   storage: new EncryptedCacheStorage(new FileCacheStorage({ directory: '.cache/api' }), {
+ *     key: Buffer.from(process.env.CACHE_KEY!, 'base64'),
+ *     keyId: '2024-06'
+ *   })
+ * });
+ * ```
+ */
+export class EncryptedCacheStorage implements CacheStorage {
+  private keyId: string;
+  private crypto?: WebCryptoLike;
+  private key: Promise<CryptoKeyLike> | CryptoKeyLike | Uint8Array;
+  
+  constructor(private storage: CacheStorage, options: EncryptedCacheStorageOptions) {
+    this.keyId = options.keyId;
+    this.crypto = options.crypto ?? (globalThis as { crypto?: WebCryptoLike }).crypto;
+    if (options.key instanceof Uint8Array && ![16, 24, 32].includes(options.key.length)) {
+      throw new Error('EncryptedCacheStorage: raw keys must be 16, 24 or 32 bytes long');
+    }
+    this.key = options.key;
+  }
+  
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.decrypt(key, await this.storage.get(key));
+  }
+  
+  async peek(key: string): Promise<CacheEntry | undefined> {
+    const storage = this.storage;
+    return this.decrypt(key, await (storage.peek ? storage.peek(key) : storage.get(key)));
+  }
+  
+  async set(key: string, value: CacheEntry): Promise<void | boolean> {
+    const { cachedAt, expiresAt, ...fields } = value;
+    const webCrypto = this.webCrypto();
+    const iv = webCrypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await webCrypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(key) },
+      await this.cryptoKey(),
+      new TextEncoder().encode(stringifyValue(fields))
+    );
+    
+    const stored: EncryptedCacheEntry = {
+      cachedAt,
+      expiresAt,
+      data: toBase64(new Uint8Array(ciphertext)),
+      keyId: this.keyId,
+      iv: toBase64(iv)
+    };
+    return this.storage.set(key, stored);
+  }
+  
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+  
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+  
+  async keys(): Promise<string[]> {
+    return this.storage.keys();
+  }
+  
+  /**
+   * Decrypts a stored entry; entries of another key ID or that fail to decrypt
+   * are removed. A missing WebCrypto or an unusable key throws instead.
+   */
+  private async decrypt(key: string, value: CacheEntry | undefined): Promise<CacheEntry | undefined> {
+    const stored = value as Partial<EncryptedCacheEntry> | undefined;
+    if (!stored) {
+      return undefined;
+    }
+    if (stored.keyId !== this.keyId || typeof stored.iv !== 'string' || typeof stored.data !== 'string') {
+      // Not encrypted with the current key
+      await this.storage.delete(key);
+      return undefined;
+    }
+    
+    const webCrypto = this.webCrypto();
+    const cryptoKey = await this.cryptoKey();
+    try {
+      const plaintext = await webCrypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(stored.iv), additionalData: new TextEncoder().encode(key) },
+        cryptoKey,
+        fromBase64(stored.data)
+      );
+      const fields = parseValue(new TextDecoder().decode(plaintext));
+      return { ...fields, cachedAt: stored.cachedAt, expiresAt: stored.expiresAt };
+    } catch {
+      await this.storage.delete(key);
+      return undefined;
+    }
+  }
+  
+  private webCrypto(): WebCryptoLike {
+    if (!this.crypto) {
+      throw new Error('EncryptedCacheStorage: WebCrypto is not available');
+    }
+    return this.crypto;
+  }
+  
+  /**
+   * Returns the `CryptoKey`, importing raw key bytes once on first use
+   */
+  private cryptoKey(): Promise<CryptoKeyLike> | CryptoKeyLike {
+    if (this.key instanceof Uint8Array) {
+      const usages: Array<'encrypt' | 'decrypt'> = ['encrypt', 'decrypt'];
+      this.key = this.webCrypto().subtle.importKey('raw', this.key, 'AES-GCM', false, usages);
+    }
+    return this.key;
+  }
+}
@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import type { CacheEntry, CacheStorage } from '../index';
+import { hashKey } from '../keys';
+import { deserializeEntry, serializeEntry } from '../serialization';
+
+/**
+ * Options for the file-system cache storage
+ */
+export type FileCacheStorageOptions = {
+  /**
+   * Directory holding the cache files, created on first write
+   */
+  directory: string;
+};
+
+// Cache files are named after the hash of their key
+const CACHE_FILE = /^[0-9a-f]{32}\.json$/;
+
+/**
+ * Node.js cache storage keeping one file per entry, so cached responses
+ * survive across process runs
+ * 
+ * - File names are a hash of the key, so any key maps to a safe name
+ * - Writes go to a temporary file that is renamed over the target, so readers
+ *   never see a half-written entry
+ * - Unreadable or corrupt files are treated as misses and removed
+ * - `cachedAt`, `expiresAt` and any `Date` in the data are restored as `Date` objects
+ * 
+ * @example
+ * ```typescript
+ * import { cache } from '@endpoint-fetcher/cache';
+ * import { FileCacheStorage } from '@endpoint-fetcher/cache/file';
+ * 
+ * cache({
+ *   ttl: 3600,
+ *   storage: new FileCacheStorage({ directory: '.cache/api' })
+ * });
+ * ```
+ */
+export class FileCacheStorage implements CacheStorage {
+  private directory: string;
+  
+  constructor(options: FileCacheStorageOptions) {
+    this.directory = options.directory;
+  }
+  
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const stored = await this.read(this.fileFor(key));
+    return stored?.key === key ? stored.entry : undefined;
+  }
+  
+  async set(key: string, value: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    
+    const file = this.fileFor(key);
+    const temp = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(temp, `${JSON.stringify(key)}\n${serializeEntry(value)}`, 'utf8');
+      await fs.rename(temp, file);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+  }
+  
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+  
+  async clear(): Promise<void> {
+    for (const name of await this.cacheFiles()) {
+      await fs.rm(join(this.directory, name), { force: true });
+    }
+  }
+  
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (const name of await this.cacheFiles()) {
+      const stored = await this.read(join(this.directory, name));
+      if (stored) {
+        keys.push(stored.key);
+      }
+    }
+    return keys;
+  }
+  
+  private fileFor(key: string): string {
+    return join(this.directory, `${hashKey(key)}.json`);
+  }
+  
+  private async cacheFiles(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.directory)).filter((name) => CACHE_FILE.test(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Reads a cache file: the JSON-encoded key on the first line, the entry after it.
+   * Corrupt files are deleted and reported as missing.
+   */
+  private async read(file: string): Promise<{ key: string; entry: CacheEntry } | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+    
+    const separator = content.indexOf('\n');
+    let key: unknown;
+    try {
+      key = JSON.parse(content.slice(0, separator));
+    } catch {
+      key = undefined;
+    }
+    const entry = separator === -1 ? undefined : deserializeEntry(content.slice(separator + 1));
+    
+    if (typeof key !== 'string' || !entry) {
+      await fs.rm(file, { force: true });
+      return undefined;
+    }
+    return { key, entry };
+  }
+}
@@ -0,0 +1,287 @@
+import type { CacheEntry, CacheStorage } from '../index';
+
+/*
+ * Minimal structural types for the parts of the IndexedDB API used below,
+ * so the adapter compiles without the DOM type library
+ */
+
+interface IdbRequest<T = any> {
+  readonly result: T;
+  readonly error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface IdbOpenRequest extends IdbRequest<IdbDatabase> {
+  onupgradeneeded: (() => void) | null;
+  onblocked: (() => void) | null;
+}
+
+interface IdbCursor {
+  delete(): unknown;
+  continue(): void;
+}
+
+interface IdbIndex {
+  openCursor(range?: unknown): IdbRequest<IdbCursor | null>;
+}
+
+interface IdbObjectStore {
+  get(key: string): IdbRequest<CacheEntry | undefined>;
+  put(value: CacheEntry, key: string): IdbRequest;
+  delete(key: string): IdbRequest;
+  clear(): IdbRequest;
+  getAllKeys(): IdbRequest<string[]>;
+  createIndex(name: string, keyPath: string): unknown;
+  index(name: string): IdbIndex;
+}
+
+interface IdbTransaction {
+  readonly error: unknown;
+  objectStore(name: string): IdbObjectStore;
+  oncomplete: (() => void) | null;
+  onerror: (() => void) | null;
+  onabort: (() => void) | null;
+}
+
+interface IdbDatabase {
+  readonly version: number;
+  readonly objectStoreNames: { contains(name: string): boolean };
+  createObjectStore(name: string): IdbObjectStore;
+  transaction(storeName: string, mode: 'readonly' | 'readwrite'): IdbTransaction;
+  close(): void;
+  onversionchange: (() => void) | null;
+}
+
+/**
+ * The `indexedDB` factory (or a compatible implementation)
+ */
+export interface IndexedDBFactoryLike {
+  open(name: string, version?: number): IdbOpenRequest;
+}
+
+/**
+ * The `IDBKeyRange` constructor (or a compatible implementation)
+ */
+export interface IndexedDBKeyRangeLike {
+  upperBound(bound: unknown, open?: boolean): unknown;
+}
+
+/**
+ * Options for the IndexedDB cache storage
+ */
+export type IndexedDBCacheStorageOptions = {
+  /**
+   * Database name
+   * @default 'endpoint-fetcher-cache'
+   */
+  databaseName?: string;
+  
+  /**
+   * Object store name; give each client its own store to keep their entries apart
+   * @default 'entries'
+   */
+  storeName?: string;
+  
+  /**
+   * IndexedDB implementation
+   * @default globalThis.indexedDB
+   */
+  indexedDB?: IndexedDBFactoryLike;
+  
+  /**
+   * Key range implementation matching `indexedDB`
+   * @default globalThis.IDBKeyRange
+   */
+  keyRange?: IndexedDBKeyRangeLike;
+};
+
+/**
+ * Index on `expiresAt`, used to find expired entries without reading every entry
+ */
+const EXPIRES_INDEX = 'expiresAt';
+
+/**
+ * Resolves with the result of an IndexedDB request
+ */
+const settle = <T>(request: IdbRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolves once a transaction has committed
+ */
+const committed = (transaction: IdbTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Browser cache storage backed by IndexedDB, for caches larger than
+ * `localStorage` allows
+ * 
+ * - Entries are stored as structured clones, so `Date`s, `Blob`s, typed arrays
+ *   and other binary data survive as-is
+ * - An index on `expiresAt` makes `removeExpired()` cheap
+ * - The database opens lazily on first use; each store name holds a separate cache
+ * 
+ * @example
+ * ```typescript
+ * const storage = new IndexedDBCacheStorage({ storeName: 'catalog-api' });
+ * 
+ * cache({ ttl: 3600, storage });
+ * 
+ * // e.g. at startup
+ * await storage.removeExpired();
+ * ```
+ */
+export class IndexedDBCacheStorage implements CacheStorage {
+  private databaseName: string;
+  private storeName: string;
+  private factory?: IndexedDBFactoryLike;
+  private keyRange?: IndexedDBKeyRangeLike;
+  private database?: Promise<IdbDatabase>;
+  
+  constructor(options: IndexedDBCacheStorageOptions = {}) {
+    const globals = globalThis as {
+      indexedDB?: IndexedDBFactoryLike;
+      IDBKeyRange?: IndexedDBKeyRangeLike;
+    };
+    this.databaseName = options.databaseName ?? 'endpoint-fetcher-cache';
+    this.storeName = options.storeName ?? 'entries';
+    this.factory = options.indexedDB ?? globals.indexedDB;
+    this.keyRange = options.keyRange ?? globals.IDBKeyRange;
+  }
+  
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const store = await this.store('readonly');
+    return settle(store.get(key));
+  }
+  
+  async set(key: string, value: CacheEntry): Promise<void> {
+    await this.write((store) => store.put(value, key));
+  }
+  
+  async delete(key: string): Promise<void> {
+    await this.write((store) => store.delete(key));
+  }
+  
+  async clear(): Promise<void> {
+    await this.write((store) => store.clear());
+  }
+  
+  async keys(): Promise<string[]> {
+    const store = await this.store('readonly');
+    return settle(store.getAllKeys());
+  }
+  
+  /**
+   * Removes every entry whose `expiresAt` has passed
+   * @returns The number of removed entries
+   */
+  async removeExpired(now: Date = new Date()): Promise<number> {
+    if (!this.keyRange) {
+      throw new Error('IndexedDBCacheStorage: IDBKeyRange is not available');
+    }
+    
+    const database = await this.open();
+    const transaction = database.transaction(this.storeName, 'readwrite');
+    const done = committed(transaction);
+    const request = transaction
+      .objectStore(this.storeName)
+      .index(EXPIRES_INDEX)
+      .openCursor(this.keyRange.upperBound(now));
+    
+    let removed = 0;
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        removed++;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    
+    await done;
+    return removed;
+  }
+  
+  /**
+   * Closes the database connection; it is reopened on next use
+   */
+  async close(): Promise<void> {
+    const database = this.database;
+    this.database = undefined;
+    if (database) {
+      (await database).close();
+    }
+  }
+  
+  private async store(mode: 'readonly' | 'readwrite'): Promise<IdbObjectStore> {
+    const database = await this.open();
+    return database.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+  
+  private async write(operation: (store: IdbObjectStore) => IdbRequest): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(this.storeName, 'readwrite');
+    const done = committed(transaction);
+    operation(transaction.objectStore(this.storeName));
+    await done;
+  }
+  
+  private open(): Promise<IdbDatabase> {
+    if (!this.database) {
+      this.database = this.connect().catch((error) => {
+        // Allow a later call to retry
+        this.database = undefined;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+  
+  /**
+   * Opens the database, upgrading it when the object store does not exist yet
+   * (e.g. another client created the database with a different store name)
+   */
+  private async connect(version?: number): Promise<IdbDatabase> {
+    if (!this.factory) {
+      throw new Error('IndexedDBCacheStorage: indexedDB is not available');
+    }
+    
+    const request = this.factory.open(this.databaseName, version);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(this.storeName)) {
+        database
+          .createObjectStore(this.storeName)
+          .createIndex(EXPIRES_INDEX, 'expiresAt');
+      }
+    };
+    const database = await settle(request);
+    
+    if (!database.objectStoreNames.contains(this.storeName)) {
+      database.close();
+      return this.connect(database.version + 1);
+    }
+    
+    // Let other tabs upgrade the database instead of blocking them
+    database.onversionchange = () => {
+      database.close();
+      this.database = undefined;
+    };
+    return database;
+  }
+}
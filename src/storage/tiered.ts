@@ -0,0 +1,84 @@
+import type { CacheEntry, CacheStorage } from '../index';
+
+/**
+ * Multi-level cache storage, e.g. a small in-memory cache in front of a
+ * persistent one
+ * 
+ * - Reads try each layer in order; a hit in a slower layer is copied into all
+ *   faster layers before it. A layer failing to take the copy does not fail
+ *   the read.
+ * - Writes, deletes and clears go to every layer
+ * - `keys()` lists the keys of all layers, without duplicates
+ * 
+ * Each layer keeps its own limits and eviction, so an entry evicted from the
+ * first layer is still served (and promoted again) from the next one.
+ * 
+ * @example
+ * ```typescript
+ * cache({
+ *   ttl: 3600,
+ *   storage: new TieredCacheStorage([
+ *     new InMemoryCacheStorage({ maxSize: 200, eviction: 'lfu' }),
+ *     new IndexedDBCacheStorage({ storeName: 'catalog-api' })
+ *   ])
+ * });
+ * ```
+ */
+export class TieredCacheStorage implements CacheStorage {
+  private layers: CacheStorage[];
+  
+  /**
+   * @param layers Storages from fastest to slowest
+   */
+  constructor(layers: CacheStorage[]) {
+    if (layers.length === 0) {
+      throw new Error('TieredCacheStorage: at least one layer is required');
+    }
+    this.layers = layers;
+  }
+  
+  async get(key: string): Promise<CacheEntry | undefined> {
+    for (let level = 0; level < this.layers.length; level++) {
+      const entry = await this.layers[level].get(key);
+      if (entry) {
+        await Promise.allSettled(this.layers.slice(0, level).map(async (layer) => layer.set(key, entry)));
+        return entry;
+      }
+    }
+    return undefined;
+  }
+  
+  /**
+   * Reads the first layer holding the entry, without promoting it
+   */
+  async peek(key: string): Promise<CacheEntry | undefined> {
+    for (const layer of this.layers) {
+      const entry = await (layer.peek ? layer.peek(key) : layer.get(key));
+      if (entry) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+  
+  /**
+   * Writes to every layer; the entry counts as stored when any layer kept it
+   */
+  async set(key: string, value: CacheEntry): Promise<boolean> {
+    const results = await Promise.all(this.layers.map((layer) => layer.set(key, value)));
+    return results.some((stored) => stored !== false);
+  }
+  
+  async delete(key: string): Promise<void> {
+    await Promise.all(this.layers.map((layer) => layer.delete(key)));
+  }
+  
+  async clear(): Promise<void> {
+    await Promise.all(this.layers.map((layer) => layer.clear()));
+  }
+  
+  async keys(): Promise<string[]> {
+    const keys = await Promise.all(this.layers.map((layer) => layer.keys()));
+    return Array.from(new Set(keys.flat()));
+  }
+}
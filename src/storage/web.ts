@@ -0,0 +1,174 @@
+import type { CacheEntry, CacheStorage } from '../index';
+import { deserializeEntry, serializeEntry } from '../serialization';
+
+/**
+ * The part of the Web Storage API (`localStorage` / `sessionStorage`) used by the adapter
+ */
+export interface WebStorageLike {
+  readonly length: number;
+  key(index: number): string | null;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Options for the Web Storage cache adapter
+ */
+export type WebStorageCacheStorageOptions = {
+  /**
+   * Prefix for the items written by the adapter; `keys()` and `clear()`
+   * only touch items with this prefix
+   * @default 'endpoint-fetcher-cache:'
+   */
+  prefix?: string;
+};
+
+/**
+ * Whether an error thrown by `setItem` means the storage quota is exhausted
+ */
+const isQuotaExceeded = (error: unknown): boolean => {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  const { name, code } = error as { name?: string; code?: number };
+  return (
+    name === 'QuotaExceededError' ||
+    // Firefox
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014
+  );
+};
+
+/**
+ * Cache storage backed by `localStorage` or `sessionStorage`
+ * 
+ * - Items are namespaced with a prefix, so `keys()` and `clear()` leave the rest
+ *   of the origin's storage alone
+ * - Entries are serialized with `serializeEntry()`, so `cachedAt`, `expiresAt`
+ *   and any `Date` in the data come back as `Date` objects
+ * - When the quota is exceeded, expired entries and then the oldest entries are
+ *   removed until the write fits, up to as much as the entry takes; if it still
+ *   does not fit, the entry is not cached and the removed entries are restored
+ * 
+ * @example
+ * ```typescript
+ * cache({
+ *   ttl: 3600,
+ *   storage: new WebStorageCacheStorage(localStorage, { prefix: 'my-app:' })
+ * });
+ * ```
+ */
+export class WebStorageCacheStorage implements CacheStorage {
+  private prefix: string;
+  
+  constructor(private storage: WebStorageLike, options: WebStorageCacheStorageOptions = {}) {
+    this.prefix = options.prefix ?? 'endpoint-fetcher-cache:';
+  }
+  
+  get(key: string): CacheEntry | undefined {
+    const item = this.storage.getItem(this.prefix + key);
+    if (item === null) {
+      return undefined;
+    }
+    
+    const entry = deserializeEntry(item);
+    if (!entry) {
+      // Corrupt or written by something else
+      this.storage.removeItem(this.prefix + key);
+    }
+    return entry;
+  }
+  
+  set(key: string, value: CacheEntry): boolean {
+    const name = this.prefix + key;
+    const item = serializeEntry(value);
+    const evicted: Array<{ name: string; item: string }> = [];
+    let freed = 0;
+    
+    for (;;) {
+      try {
+        this.storage.setItem(name, item);
+        return true;
+      } catch (error) {
+        if (!isQuotaExceeded(error)) {
+          throw error;
+        }
+        // Once the room the entry takes has been freed, other data is in the way
+        const victim = freed < name.length + item.length ? this.evictOne(key) : undefined;
+        if (!victim) {
+          // Skip caching this entry rather than emptying the cache for it
+          this.storage.removeItem(name);
+          evicted.forEach((removed) => this.storage.setItem(removed.name, removed.item));
+          return false;
+        }
+        evicted.push(victim);
+        freed += victim.name.length + victim.item.length;
+      }
+    }
+  }
+  
+  delete(key: string): void {
+    this.storage.removeItem(this.prefix + key);
+  }
+  
+  clear(): void {
+    for (const key of this.keys()) {
+      this.storage.removeItem(this.prefix + key);
+    }
+  }
+  
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const name = this.storage.key(i);
+      if (name !== null && name.startsWith(this.prefix)) {
+        keys.push(name.slice(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+  
+  /**
+   * Removes one entry to free space: unreadable entries first, then the
+   * soonest expired, then the oldest
+   * @returns The removed item, or `undefined` when there was none to remove
+   */
+  private evictOne(keep: string): { name: string; item: string } | undefined {
+    const now = Date.now();
+    let victim: { name: string; item: string; rank: number; time: number } | undefined;
+    
+    for (const key of this.keys()) {
+      const name = this.prefix + key;
+      const item = key === keep ? null : this.storage.getItem(name);
+      if (item === null) {
+        continue;
+      }
+      const entry = deserializeEntry(item);
+      
+      let candidate: { name: string; item: string; rank: number; time: number };
+      if (!entry) {
+        candidate = { name, item, rank: 0, time: 0 };
+      } else if (entry.expiresAt.getTime() <= now) {
+        candidate = { name, item, rank: 1, time: entry.expiresAt.getTime() };
+      } else {
+        candidate = { name, item, rank: 2, time: entry.cachedAt.getTime() };
+      }
+      
+      if (
+        !victim ||
+        candidate.rank < victim.rank ||
+        (candidate.rank === victim.rank && candidate.time < victim.time)
+      ) {
+        victim = candidate;
+      }
+    }
+    
+    if (!victim) {
+      return undefined;
+    }
+    this.storage.removeItem(victim.name);
+    return { name: victim.name, item: victim.item };
+  }
+}
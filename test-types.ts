@@ -13,9 +13,9 @@ console.log('Has invalidateKey method:', !!plugin.methods?.invalidateKey); // Sh
 type CacheMethods = typeof plugin.methods;
 // These should all be valid TypeScript
 const methods: CacheMethods = {
-  clear: () => {},
-  invalidate: (method: string, path: string, input: any) => {},
-  invalidateKey: (key: string) => {},
+  clear: async () => {},
+  invalidate: async (method: string, path: string, input: any) => {},
+  invalidateKey: async (key: string) => {},
 };
 
 // Test 3: Verify the plugin works with createApiClient type inference
@@ -46,7 +46,7 @@ if (client.plugins) {
     const cachedAt = result.cachedAt; // Date
     const isStale = result.isStale; // boolean
     result.refresh(); // Promise<CachingWrapper<...>>
-    result.invalidate(); // void
+    result.invalidate(); // Promise<void>
   });
 }
 
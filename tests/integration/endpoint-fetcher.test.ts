@@ -283,7 +283,7 @@ describe('Integration with endpoint-fetcher', () => {
 
       await api.getData();
 
-      api.plugins.cache.invalidateKey('GET:/data:');
+      api.plugins.cache.invalidateKey('GET:https://api.example.com/data:');
 
       await api.getData();
       expect(mockFetch).toHaveBeenCalledTimes(2);
@@ -400,7 +400,7 @@ describe('Integration with endpoint-fetcher', () => {
       await api.getData();
 
       expect(entries.size).toBe(1);
-      expect(entries.has('GET:/data:')).toBe(true);
+      expect(entries.has('GET:https://api.example.com/data:')).toBe(true);
     });
   });
 });
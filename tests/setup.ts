@@ -1,5 +1,6 @@
 import { vi, beforeAll, afterAll, beforeEach } from 'vitest';
 import type { Mock } from 'vitest';
+import type { CacheEntry } from '../src/index';
 
 global.fetch = vi.fn() as Mock;
 
@@ -89,4 +90,10 @@ export const mockDate = (date: string | Date | number) => {
 
 export const restoreDate = () => {
   vi.useRealTimers();
-};
\ No newline at end of file
+};
+
+export const entry = (data: any, ttlSeconds = 60, cachedAt = new Date()): CacheEntry => ({
+  data,
+  cachedAt,
+  expiresAt: new Date(cachedAt.getTime() + ttlSeconds * 1000)
+});
\ No newline at end of file
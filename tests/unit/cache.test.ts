@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { cache, clearCache } from '../../src/index';
+import { cache, clearCache, InMemoryCacheStorage } from '../../src/index';
+
+// Request context as passed by endpoint-fetcher to a handler
+const contextFor = (path: string, method = 'GET') => ({
+  method: method as any,
+  path,
+  baseUrl: 'https://api.example.com',
+  fetch: vi.fn(),
+});
 
 describe('cache() plugin function', () => {
   beforeEach(() => {
@@ -157,3 +165,1392 @@ describe('clearCache() function', () => {
     expect(() => clearCache()).not.toThrow();
   });
 });
+
+describe('in-flight request deduplication', () => {
+  const mockContext = {
+    method: 'GET' as const,
+    path: '/users',
+    baseUrl: 'https://api.example.com',
+    fetch: vi.fn(),
+  };
+
+  it('should share one fetch between concurrent misses', async () => {
+    const plugin = cache();
+    let resolve!: (value: string) => void;
+    const mockHandler = vi.fn(() => new Promise<string>((r) => { resolve = r; }));
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const pending = Promise.all([
+      wrappedHandler(undefined, mockContext),
+      wrappedHandler(undefined, mockContext),
+      wrappedHandler(undefined, mockContext),
+    ]);
+
+    await vi.waitFor(() => expect(mockHandler).toHaveBeenCalled());
+    resolve('users');
+    const results = await pending;
+
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+    expect(results.map((r: any) => r.data)).toEqual(['users', 'users', 'users']);
+  });
+
+  it('should share one fetch between concurrent refresh() calls', async () => {
+    const plugin = cache();
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('v1')
+      .mockResolvedValueOnce('v2')
+      .mockResolvedValueOnce('v3');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const result = await wrappedHandler(undefined, mockContext);
+    const [a, b] = await Promise.all([result.refresh(), result.refresh()]);
+
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+    expect(a.data).toBe('v2');
+    expect(b.data).toBe('v2');
+  });
+
+  it('should join a pending refresh() from a later refresh() call', async () => {
+    const plugin = cache();
+    const resolvers: Array<(value: string) => void> = [];
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('v1')
+      .mockImplementation(() => new Promise<string>((r) => { resolvers.push(r); }));
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const result = await wrappedHandler(undefined, mockContext);
+    const first = result.refresh();
+    await vi.waitFor(() => expect(mockHandler).toHaveBeenCalledTimes(2));
+    const second = result.refresh();
+    await new Promise((r) => setTimeout(r, 0));
+    resolvers.forEach((r) => r('v2'));
+
+    expect((await first).data).toBe('v2');
+    expect((await second).data).toBe('v2');
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+    expect((await plugin.methods!.peek('GET', '/users', undefined))?.data).toBe('v2');
+  });
+
+  it('should reject every waiter and cache nothing on failure', async () => {
+    const storage = {
+      get: vi.fn(),
+      set: vi.fn(),
+      delete: vi.fn(),
+      clear: vi.fn(),
+      keys: vi.fn(() => []),
+    };
+    const plugin = cache({ storage });
+    const mockHandler = vi.fn()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce('recovered');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const results = await Promise.allSettled([
+      wrappedHandler(undefined, mockContext),
+      wrappedHandler(undefined, mockContext),
+    ]);
+
+    expect(results.every((r) => r.status === 'rejected')).toBe(true);
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+    expect(storage.set).not.toHaveBeenCalled();
+
+    // The failed request is no longer in flight
+    const retry = await wrappedHandler(undefined, mockContext);
+    expect(retry.data).toBe('recovered');
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not store a fetch that was in flight when the cache was invalidated', async () => {
+    const plugin = cache({ invalidateOnMutation: true });
+    const resolvers: Array<(value: string) => void> = [];
+    const mockHandler = vi.fn(() => new Promise<string>((r) => { resolvers.push(r); }));
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+    const saveHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('saved'), {} as any);
+
+    for (const invalidate of [
+      () => plugin.methods!.clear(),
+      () => plugin.methods!.invalidate('GET', '/users', undefined),
+      () => plugin.methods!.invalidateMatching('/users'),
+      () => saveHandler({ name: 'Ann' }, contextFor('/users', 'POST')),
+    ]) {
+      mockHandler.mockClear();
+      const pending = wrappedHandler(undefined, mockContext);
+      await vi.waitFor(() => expect(mockHandler).toHaveBeenCalledTimes(1));
+
+      await invalidate();
+      resolvers.shift()!('before the change');
+      expect((await pending).data).toBe('before the change');
+      expect(await plugin.methods!.peek('GET', '/users', undefined)).toBeUndefined();
+    }
+  });
+
+  it('should keep sharing and storing fetches an invalidation does not match', async () => {
+    const plugin = cache({ invalidateOnMutation: true });
+    let resolve!: (value: string) => void;
+    const mockHandler = vi.fn(() => new Promise<string>((r) => { resolve = r; }));
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+    const saveHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('saved'), {} as any);
+
+    const first = wrappedHandler(undefined, mockContext);
+    await vi.waitFor(() => expect(mockHandler).toHaveBeenCalledTimes(1));
+    await plugin.methods!.invalidateMatching('/posts/*');
+    await plugin.methods!.invalidateMatching(({ path }) => path === '/posts');
+    await plugin.methods!.invalidateTags(['posts']);
+    await saveHandler({ title: 'Hello' }, contextFor('/posts', 'POST'));
+    const second = wrappedHandler(undefined, mockContext);
+
+    resolve('users');
+    expect((await first).data).toBe('users');
+    expect((await second).data).toBe('users');
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+    expect((await plugin.methods!.peek('GET', '/users', undefined))?.data).toBe('users');
+  });
+
+  it('should start a new fetch for requests made after an invalidation', async () => {
+    const plugin = cache();
+    const resolvers: Array<(value: string) => void> = [];
+    const mockHandler = vi.fn(() => new Promise<string>((r) => { resolvers.push(r); }));
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const outdated = wrappedHandler(undefined, mockContext);
+    await vi.waitFor(() => expect(mockHandler).toHaveBeenCalledTimes(1));
+    await plugin.methods!.invalidate('GET', '/users', undefined);
+    const current = wrappedHandler(undefined, mockContext);
+    await vi.waitFor(() => expect(mockHandler).toHaveBeenCalledTimes(2));
+
+    resolvers[1]('after the change');
+    resolvers[0]('before the change');
+    expect((await current).data).toBe('after the change');
+    expect((await outdated).data).toBe('before the change');
+    expect((await plugin.methods!.peek('GET', '/users', undefined))?.data).toBe('after the change');
+  });
+});
+
+describe('staleWhileRevalidate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const mockContext = {
+    method: 'GET' as const,
+    path: '/feed',
+    baseUrl: 'https://api.example.com',
+    fetch: vi.fn(),
+  };
+
+  it('should return stale data immediately and refresh in the background', async () => {
+    const plugin = cache({ ttl: 10, staleWhileRevalidate: 60 });
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('old')
+      .mockResolvedValueOnce('new');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, mockContext);
+    vi.advanceTimersByTime(20000);
+
+    const stale = await wrappedHandler(undefined, mockContext);
+    expect(stale.data).toBe('old');
+    expect(stale.isStale).toBe(true);
+    expect(stale.revalidation).toBeInstanceOf(Promise);
+
+    const fresh = await stale.revalidation;
+    expect(fresh.data).toBe('new');
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+
+    const cached = await wrappedHandler(undefined, mockContext);
+    expect(cached.data).toBe('new');
+    expect(cached.isStale).toBe(false);
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let refresh() join a pending background revalidation', async () => {
+    const plugin = cache({ ttl: 10, staleWhileRevalidate: 60 });
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('old')
+      .mockResolvedValueOnce('new');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, mockContext);
+    vi.advanceTimersByTime(20000);
+
+    const stale = await wrappedHandler(undefined, mockContext);
+    const refreshed = await stale.refresh();
+    expect(refreshed.data).toBe('new');
+    expect((await stale.revalidation).data).toBe('new');
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+
+    const cached = await wrappedHandler(undefined, mockContext);
+    expect(cached.data).toBe('new');
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fetch synchronously once the window has passed', async () => {
+    const plugin = cache({ ttl: 10, staleWhileRevalidate: 60 });
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('old')
+      .mockResolvedValueOnce('new');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, mockContext);
+    vi.advanceTimersByTime(80000);
+
+    const result = await wrappedHandler(undefined, mockContext);
+    expect(result.data).toBe('new');
+    expect(result.revalidation).toBeUndefined();
+  });
+
+  it('should reject the revalidation promise and keep the stale entry on failure', async () => {
+    const plugin = cache({ ttl: 10, staleWhileRevalidate: 60 });
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('old')
+      .mockRejectedValueOnce(new Error('Network error'));
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, mockContext);
+    vi.advanceTimersByTime(20000);
+
+    const stale = await wrappedHandler(undefined, mockContext);
+    await expect(stale.revalidation).rejects.toThrow('Network error');
+
+    mockHandler.mockResolvedValueOnce('new');
+    const next = await wrappedHandler(undefined, mockContext);
+    expect(next.data).toBe('old');
+    expect(next.isStale).toBe(true);
+  });
+});
+
+describe('staleIfError', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const mockContext = {
+    method: 'GET' as const,
+    path: '/orders',
+    baseUrl: 'https://api.example.com',
+    fetch: vi.fn(),
+  };
+
+  it('should fall back to the expired entry when the fetch fails', async () => {
+    const plugin = cache({ ttl: 10, staleIfError: 3600 });
+    const networkError = new Error('Network error');
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('cached')
+      .mockRejectedValueOnce(networkError);
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const first = await wrappedHandler(undefined, mockContext);
+    expect(first.isFallback).toBe(false);
+
+    vi.advanceTimersByTime(60000);
+
+    const result = await wrappedHandler(undefined, mockContext);
+    expect(result.data).toBe('cached');
+    expect(result.isStale).toBe(true);
+    expect(result.isFallback).toBe(true);
+    expect(result.error).toBe(networkError);
+  });
+
+  it('should rethrow once the entry is older than the staleIfError window', async () => {
+    const plugin = cache({ ttl: 10, staleIfError: 30 });
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('cached')
+      .mockRejectedValueOnce(new Error('Network error'));
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, mockContext);
+    vi.advanceTimersByTime(60000);
+
+    await expect(wrappedHandler(undefined, mockContext)).rejects.toThrow('Network error');
+  });
+
+  it('should rethrow when disabled', async () => {
+    const plugin = cache({ ttl: 10 });
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('cached')
+      .mockRejectedValueOnce(new Error('Network error'));
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, mockContext);
+    vi.advanceTimersByTime(20000);
+
+    await expect(wrappedHandler(undefined, mockContext)).rejects.toThrow('Network error');
+  });
+});
+
+describe('per-endpoint rules', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should apply the ttl of the first matching rule', async () => {
+    const plugin = cache({
+      ttl: 300,
+      rules: [
+        { match: '/config', ttl: 3600 },
+        { match: '/feed/**', ttl: 10 },
+        { match: '/feed/**', ttl: 20 },
+      ],
+    });
+    const mockHandler = vi.fn().mockResolvedValue('data');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const config = await wrappedHandler(undefined, contextFor('/config'));
+    const feed = await wrappedHandler(undefined, contextFor('/feed/latest?page=2'));
+    const other = await wrappedHandler(undefined, contextFor('/users'));
+
+    expect(config.expiresAt.getTime() - config.cachedAt.getTime()).toBe(3600000);
+    expect(feed.expiresAt.getTime() - feed.cachedAt.getTime()).toBe(10000);
+    expect(other.expiresAt.getTime() - other.cachedAt.getTime()).toBe(300000);
+  });
+
+  it('should bypass the cache for matching rules', async () => {
+    const plugin = cache({
+      rules: [{ match: /^\/me\/notifications/, bypass: true }],
+    });
+    const mockHandler = vi.fn().mockResolvedValue('data');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const result = await wrappedHandler(undefined, contextFor('/me/notifications'));
+    await wrappedHandler(undefined, contextFor('/me/notifications'));
+
+    expect(result).toBe('data');
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should match globs within a single segment with *', async () => {
+    const plugin = cache({
+      rules: [{ match: '/users/*', bypass: true }],
+    });
+    const mockHandler = vi.fn().mockResolvedValue('data');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    expect(await wrappedHandler(undefined, contextFor('/users/7'))).toBe('data');
+    expect(await wrappedHandler(undefined, contextFor('/users/7/posts'))).toHaveProperty('data', 'data');
+  });
+
+  it('should match predicates and restrict rules to their methods', async () => {
+    const predicate = vi.fn((method: string, path: string) => path.startsWith('/search'));
+    const plugin = cache({
+      rules: [{ match: predicate, methods: ['POST'], ttl: 30 }],
+    });
+    const mockHandler = vi.fn().mockResolvedValue('results');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const search = await wrappedHandler({ q: 'a' }, contextFor('/search', 'POST'));
+    expect(search.expiresAt.getTime() - search.cachedAt.getTime()).toBe(30000);
+    expect(predicate).toHaveBeenCalledWith('POST', '/search');
+
+    // Other POST requests still bypass the cache
+    expect(await wrappedHandler({}, contextFor('/users', 'POST'))).toBe('results');
+  });
+
+  it('should prefix keys with the rule namespace', async () => {
+    const entries = new Map<string, any>();
+    const storage = {
+      get: (key: string) => entries.get(key),
+      set: (key: string, value: any) => { entries.set(key, value); },
+      delete: (key: string) => { entries.delete(key); },
+      clear: () => { entries.clear(); },
+      keys: () => Array.from(entries.keys()),
+    };
+    const plugin = cache({
+      storage,
+      rules: [{ match: '/feed', namespace: 'feed' }],
+    });
+    const mockHandler = vi.fn().mockResolvedValue('data');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, contextFor('/feed'));
+    expect(storage.keys()).toEqual(['feed:GET:https://api.example.com/feed:']);
+
+    await plugin.methods!.invalidate('GET', '/feed', undefined);
+    expect(storage.keys()).toEqual([]);
+  });
+});
+
+describe('respectCacheHeaders', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const setup = (headers: Record<string, string>, config = {}) => {
+    const plugin = cache({ ttl: 300, respectCacheHeaders: true, ...config });
+    const mockHandler = vi.fn(async (_input: any, context: any) => {
+      const response = await context.fetch('https://api.example.com/data');
+      return response.json();
+    });
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler as any, {} as any);
+    const context = {
+      method: 'GET' as const,
+      path: '/data',
+      baseUrl: 'https://api.example.com',
+      fetch: vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(headers),
+        json: async () => 'data',
+      }),
+    };
+    return { plugin, mockHandler, wrappedHandler, context };
+  };
+
+  const lifetimeOf = (result: any) => (result.expiresAt.getTime() - result.cachedAt.getTime()) / 1000;
+
+  it('should use max-age instead of ttl', async () => {
+    const { wrappedHandler, context } = setup({ 'cache-control': 'public, max-age=60' });
+    const result = await wrappedHandler(undefined, context);
+    expect(result.data).toBe('data');
+    expect(lifetimeOf(result)).toBe(60);
+  });
+
+  it('should use s-maxage when max-age is missing', async () => {
+    const { wrappedHandler, context } = setup({ 'cache-control': 's-maxage=120' });
+    expect(lifetimeOf(await wrappedHandler(undefined, context))).toBe(120);
+  });
+
+  it('should subtract the Age header', async () => {
+    const { wrappedHandler, context } = setup({ 'cache-control': 'max-age=60', age: '20' });
+    expect(lifetimeOf(await wrappedHandler(undefined, context))).toBe(40);
+  });
+
+  it('should use Expires relative to the Date header', async () => {
+    const { wrappedHandler, context } = setup({
+      date: 'Mon, 01 Jan 2024 00:00:00 GMT',
+      expires: 'Mon, 01 Jan 2024 00:10:00 GMT',
+    });
+    expect(lifetimeOf(await wrappedHandler(undefined, context))).toBe(600);
+  });
+
+  it('should fall back to ttl without caching headers', async () => {
+    const { wrappedHandler, context } = setup({});
+    expect(lifetimeOf(await wrappedHandler(undefined, context))).toBe(300);
+  });
+
+  it('should not store no-store responses', async () => {
+    const { wrappedHandler, context, mockHandler } = setup({ 'cache-control': 'no-store' });
+    const result = await wrappedHandler(undefined, context);
+    expect(result.data).toBe('data');
+    await wrappedHandler(undefined, context);
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should revalidate no-cache responses on every request', async () => {
+    const { wrappedHandler, context, mockHandler } = setup({ 'cache-control': 'no-cache' });
+    const result = await wrappedHandler(undefined, context);
+    expect(lifetimeOf(result)).toBe(0);
+    await wrappedHandler(undefined, context);
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not serve no-cache responses stale', async () => {
+    const { wrappedHandler, context, mockHandler } = setup(
+      { 'cache-control': 'no-cache' },
+      { staleWhileRevalidate: 60, staleIfError: 60 }
+    );
+    await wrappedHandler(undefined, context);
+    vi.advanceTimersByTime(1000);
+
+    const second = await wrappedHandler(undefined, context);
+    expect(second.revalidation).toBeUndefined();
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(1000);
+    context.fetch.mockRejectedValueOnce(new Error('Network error'));
+    await expect(wrappedHandler(undefined, context)).rejects.toThrow('Network error');
+  });
+
+  it('should ignore headers when disabled', async () => {
+    const { wrappedHandler, context } = setup({ 'cache-control': 'max-age=60' }, { respectCacheHeaders: false });
+    expect(lifetimeOf(await wrappedHandler(undefined, context))).toBe(300);
+  });
+});
+
+describe('conditionalRequests', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const setup = () => {
+    const plugin = cache({ ttl: 60, conditionalRequests: true });
+    const mockHandler = vi.fn(async (_input: any, context: any) => {
+      const response = await context.fetch('https://api.example.com/catalog', {
+        headers: { Accept: 'application/json' },
+      });
+      return response.json();
+    });
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler as any, {} as any);
+    const fetchMock = vi.fn();
+    const context = {
+      method: 'GET' as const,
+      path: '/catalog',
+      baseUrl: 'https://api.example.com',
+      fetch: fetchMock,
+    };
+    return { wrappedHandler, fetchMock, context };
+  };
+
+  const response = (status: number, body: any, headers: Record<string, string> = {}) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: async () => body,
+  });
+
+  it('should send validators and reuse cached data on 304', async () => {
+    const { wrappedHandler, fetchMock, context } = setup();
+    fetchMock
+      .mockResolvedValueOnce(response(200, { items: [1, 2] }, {
+        etag: '"v1"',
+        'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT',
+      }))
+      .mockResolvedValueOnce(response(304, null));
+
+    const first = await wrappedHandler(undefined, context);
+    vi.advanceTimersByTime(120000);
+
+    const second = await wrappedHandler(undefined, context);
+
+    const headers = fetchMock.mock.calls[1][1].headers as Headers;
+    expect(headers.get('If-None-Match')).toBe('"v1"');
+    expect(headers.get('If-Modified-Since')).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+    expect(headers.get('Accept')).toBe('application/json');
+
+    expect(second.data).toEqual({ items: [1, 2] });
+    expect(second.cachedAt).toEqual(first.cachedAt);
+    expect(second.expiresAt.getTime()).toBe(Date.now() + 60000);
+    expect(second.isStale).toBe(false);
+  });
+
+  it('should replace the entry on 200', async () => {
+    const { wrappedHandler, fetchMock, context } = setup();
+    fetchMock
+      .mockResolvedValueOnce(response(200, { v: 1 }, { etag: '"v1"' }))
+      .mockResolvedValueOnce(response(200, { v: 2 }, { etag: '"v2"' }))
+      .mockResolvedValueOnce(response(304, null));
+
+    await wrappedHandler(undefined, context);
+    vi.advanceTimersByTime(120000);
+    const second = await wrappedHandler(undefined, context);
+    expect(second.data).toEqual({ v: 2 });
+
+    vi.advanceTimersByTime(120000);
+    await wrappedHandler(undefined, context);
+    const headers = fetchMock.mock.calls[2][1].headers as Headers;
+    expect(headers.get('If-None-Match')).toBe('"v2"');
+  });
+
+  it('should not send validators on the first request', async () => {
+    const { wrappedHandler, fetchMock, context } = setup();
+    fetchMock.mockResolvedValueOnce(response(200, 'data'));
+
+    await wrappedHandler(undefined, context);
+
+    expect(fetchMock.mock.calls[0][1]).toEqual({ headers: { Accept: 'application/json' } });
+  });
+});
+
+describe('async storage', () => {
+  const createAsyncStorage = () => {
+    const entries = new Map<string, any>();
+    return {
+      entries,
+      get: vi.fn(async (key: string) => entries.get(key)),
+      set: vi.fn(async (key: string, value: any) => { entries.set(key, value); }),
+      delete: vi.fn(async (key: string) => { entries.delete(key); }),
+      clear: vi.fn(async () => { entries.clear(); }),
+      keys: vi.fn(async () => Array.from(entries.keys())),
+    };
+  };
+
+  const mockContext = {
+    method: 'GET' as const,
+    path: '/users',
+    baseUrl: 'https://api.example.com',
+    fetch: vi.fn(),
+  };
+
+  it('should read and write through Promise-based storage', async () => {
+    const storage = createAsyncStorage();
+    const plugin = cache({ storage });
+    const mockHandler = vi.fn().mockResolvedValue('users');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, mockContext);
+    const second = await wrappedHandler(undefined, mockContext);
+
+    expect(second.data).toBe('users');
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+    expect(storage.entries.get('GET:https://api.example.com/users:').data).toBe('users');
+  });
+
+  it('should await deletes in refresh(), invalidate() and plugin methods', async () => {
+    const storage = createAsyncStorage();
+    const plugin = cache({ storage });
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('v1')
+      .mockResolvedValueOnce('v2');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const result = await wrappedHandler(undefined, mockContext);
+    const refreshed = await result.refresh();
+    expect(refreshed.data).toBe('v2');
+    expect(storage.entries.get('GET:https://api.example.com/users:').data).toBe('v2');
+
+    await refreshed.invalidate();
+    expect(storage.entries.size).toBe(0);
+
+    await wrappedHandler(undefined, mockContext);
+    await plugin.methods!.invalidate('GET', '/users', undefined);
+    expect(storage.entries.size).toBe(0);
+
+    await wrappedHandler(undefined, mockContext);
+    await plugin.methods!.clear();
+    expect(storage.clear).toHaveBeenCalled();
+    expect(storage.entries.size).toBe(0);
+  });
+
+  it('should return fetched data when the storage fails', async () => {
+    const onStorageError = vi.fn();
+    const failure = new Error('ENOSPC');
+    const plugin = cache({
+      onStorageError,
+      storage: {
+        get: async () => {
+          throw failure;
+        },
+        set: async () => {
+          throw failure;
+        },
+        delete: async () => {},
+        clear: async () => {},
+        keys: async () => [],
+      },
+    });
+    const mockHandler = vi.fn().mockResolvedValue('fresh');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    const result = await wrappedHandler(undefined, mockContext);
+
+    expect(result.data).toBe('fresh');
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+    expect(onStorageError.mock.calls.map(([event]) => [event.operation, event.error, event.path])).toEqual([
+      ['get', failure, '/users'],
+      ['set', failure, '/users'],
+    ]);
+  });
+});
+
+describe('tag-based invalidation', () => {
+  it('should store tags from rules and computed tag functions', async () => {
+    const entries = new Map<string, any>();
+    const storage = {
+      get: (key: string) => entries.get(key),
+      set: (key: string, value: any) => { entries.set(key, value); },
+      delete: (key: string) => { entries.delete(key); },
+      clear: () => { entries.clear(); },
+      keys: () => Array.from(entries.keys()),
+    };
+    const plugin = cache({
+      storage,
+      tags: ({ data }) => [`order:${data.orderId}`],
+      rules: [{ match: '/users', tags: ['user-lists'] }],
+    });
+    const mockHandler = vi.fn(async (input: any) => input);
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler as any, {} as any);
+
+    await wrappedHandler({ orderId: 42 }, contextFor('/orders/42/items'));
+    await wrappedHandler({}, contextFor('/users'));
+
+    expect(entries.get('GET:https://api.example.com/orders/42/items:{"orderId":42}').tags).toEqual(['order:42']);
+    expect(entries.get('GET:https://api.example.com/users:{}').tags).toEqual(['user-lists']);
+  });
+
+  it('should remove every entry with a matching tag', async () => {
+    const plugin = cache({
+      tags: ({ input }) => input.tags,
+    });
+    const mockHandler = vi.fn(async (input: any) => input.tags.join());
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler as any, {} as any);
+
+    await wrappedHandler({ tags: ['order:42'] }, contextFor('/orders/42'));
+    await wrappedHandler({ tags: ['order:42', 'invoices'] }, contextFor('/invoices'));
+    await wrappedHandler({ tags: ['order:7'] }, contextFor('/orders/7'));
+    expect(mockHandler).toHaveBeenCalledTimes(3);
+
+    const removed = await plugin.methods!.invalidateTags(['order:42']);
+    expect(removed).toBe(2);
+
+    await wrappedHandler({ tags: ['order:42'] }, contextFor('/orders/42'));
+    await wrappedHandler({ tags: ['order:42', 'invoices'] }, contextFor('/invoices'));
+    await wrappedHandler({ tags: ['order:7'] }, contextFor('/orders/7'));
+    expect(mockHandler).toHaveBeenCalledTimes(5);
+  });
+
+  it('should work with Promise-based storage', async () => {
+    const entries = new Map<string, any>();
+    const storage = {
+      get: async (key: string) => entries.get(key),
+      set: async (key: string, value: any) => { entries.set(key, value); },
+      delete: async (key: string) => { entries.delete(key); },
+      clear: async () => { entries.clear(); },
+      keys: async () => Array.from(entries.keys()),
+    };
+    const plugin = cache({ storage, tags: ['all'] });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+
+    await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/b'));
+
+    expect(await plugin.methods!.invalidateTags(['all'])).toBe(2);
+    expect(entries.size).toBe(0);
+  });
+});
+
+describe('invalidateMatching', () => {
+  const setup = (config = {}) => {
+    const plugin = cache(config);
+    const mockHandler = vi.fn().mockResolvedValue('data');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+    return { plugin, mockHandler, wrappedHandler };
+  };
+
+  it('should remove entries matching a path glob', async () => {
+    const { plugin, mockHandler, wrappedHandler } = setup();
+
+    await wrappedHandler(undefined, contextFor('/users/1'));
+    await wrappedHandler(undefined, contextFor('/users/2'));
+    await wrappedHandler(undefined, contextFor('/users'));
+
+    expect(await plugin.methods!.invalidateMatching('/users/*')).toBe(2);
+
+    await wrappedHandler(undefined, contextFor('/users'));
+    expect(mockHandler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should remove entries matching a RegExp', async () => {
+    const { plugin, wrappedHandler } = setup();
+
+    await wrappedHandler(undefined, contextFor('/users/1'));
+    await wrappedHandler(undefined, contextFor('/orders/1'));
+
+    expect(await plugin.methods!.invalidateMatching(/^\/orders/)).toBe(1);
+  });
+
+  it('should pass the parsed request and entry to predicates', async () => {
+    const { plugin, wrappedHandler } = setup();
+    const predicate = vi.fn(({ input }: any) => input?.id === 2);
+
+    await wrappedHandler({ id: 1 }, contextFor('/users'));
+    await wrappedHandler({ id: 2 }, contextFor('/users'));
+
+    expect(await plugin.methods!.invalidateMatching(predicate)).toBe(1);
+    expect(predicate).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET',
+      path: '/users',
+      input: { id: 1 },
+      entry: expect.objectContaining({ data: 'data' }),
+    }));
+  });
+
+  it('should work with a custom key generator', async () => {
+    let counter = 0;
+    const { plugin, mockHandler, wrappedHandler } = setup({
+      keyGenerator: () => `opaque-${counter++}`,
+    });
+
+    await wrappedHandler(undefined, contextFor('/users/1'));
+    await wrappedHandler(undefined, contextFor('/teams/1'));
+
+    expect(await plugin.methods!.invalidateMatching('/users/**')).toBe(1);
+    expect(mockHandler).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('invalidateOnMutation', () => {
+  const setup = (config = {}) => {
+    const plugin = cache(config);
+    const mockHandler = vi.fn().mockResolvedValue('data');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+    const warm = async (...paths: string[]) => {
+      for (const path of paths) {
+        await wrappedHandler(undefined, contextFor(path));
+      }
+    };
+    return { mockHandler, wrappedHandler, warm };
+  };
+
+  it('should invalidate the same and parent paths after a mutation', async () => {
+    const { mockHandler, wrappedHandler, warm } = setup({ invalidateOnMutation: true });
+    await warm('/users', '/users/7', '/users/8', '/teams');
+    mockHandler.mockClear();
+
+    await wrappedHandler({ name: 'Ann' }, contextFor('/users/7', 'PUT'));
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+
+    await warm('/users', '/users/7', '/users/8', '/teams');
+    // /users and /users/7 were refetched, /users/8 and /teams stayed cached
+    expect(mockHandler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return the mutation result when invalidation fails', async () => {
+    const onStorageError = vi.fn();
+    const failure = new Error('EACCES');
+    const { mockHandler, wrappedHandler, warm } = setup({
+      invalidateOnMutation: () => {
+        throw failure;
+      },
+      onStorageError,
+    });
+    await warm('/users');
+    mockHandler.mockClear();
+
+    await expect(wrappedHandler({ name: 'Ann' }, contextFor('/users', 'POST'))).resolves.toBe('data');
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+    expect(onStorageError).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: 'invalidate', method: 'POST', path: '/users', error: failure })
+    );
+  });
+
+  it('should not invalidate when the mutation fails', async () => {
+    const { mockHandler, wrappedHandler, warm } = setup({ invalidateOnMutation: true });
+    await warm('/users');
+    mockHandler.mockRejectedValueOnce(new Error('Bad request'));
+
+    await expect(wrappedHandler({}, contextFor('/users', 'POST'))).rejects.toThrow('Bad request');
+
+    mockHandler.mockClear();
+    await warm('/users');
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should be disabled by default', async () => {
+    const { mockHandler, wrappedHandler, warm } = setup();
+    await warm('/users');
+
+    await wrappedHandler({}, contextFor('/users', 'POST'));
+    mockHandler.mockClear();
+    await warm('/users');
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('should use a custom mapping', async () => {
+    const mapper = vi.fn(() => ['/dashboard', /^\/orders/]);
+    const { mockHandler, wrappedHandler, warm } = setup({ invalidateOnMutation: mapper });
+    await warm('/dashboard', '/orders/1', '/users');
+    mockHandler.mockClear();
+
+    await wrappedHandler({ id: 1 }, contextFor('/checkout', 'POST'));
+    expect(mapper).toHaveBeenCalledWith({ method: 'POST', path: '/checkout', input: { id: 1 } });
+
+    await warm('/dashboard', '/orders/1', '/users');
+    expect(mockHandler).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('lifecycle events', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report misses, sets and hits with timings', async () => {
+    const onMiss = vi.fn();
+    const onSet = vi.fn();
+    const onHit = vi.fn();
+    const plugin = cache({ ttl: 60, onMiss, onSet, onHit });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+
+    await wrappedHandler(undefined, contextFor('/users'));
+    vi.advanceTimersByTime(5000);
+    await wrappedHandler(undefined, contextFor('/users'));
+
+    const key = 'GET:https://api.example.com/users:';
+    expect(onMiss).toHaveBeenCalledWith(
+      expect.objectContaining({ key, method: 'GET', path: '/users', expired: false })
+    );
+    expect(onSet).toHaveBeenCalledWith(
+      expect.objectContaining({ key, method: 'GET', path: '/users', duration: 0 })
+    );
+    expect(onSet.mock.calls[0][0].entry.data).toBe('data');
+    expect(onHit).toHaveBeenCalledWith(expect.objectContaining({ key, path: '/users', age: 5000 }));
+    expect(onHit.mock.calls[0][0].timestamp).toBe(Date.now());
+  });
+
+  it('should report stale serves for revalidation and errors', async () => {
+    const onStale = vi.fn();
+    const onFetchError = vi.fn();
+    const networkError = new Error('Network error');
+    const plugin = cache({ ttl: 10, staleWhileRevalidate: 10, staleIfError: 3600, onStale, onFetchError });
+    const mockHandler = vi.fn()
+      .mockResolvedValueOnce('old')
+      .mockRejectedValue(networkError);
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, contextFor('/orders'));
+    vi.advanceTimersByTime(15000);
+    const revalidating = await wrappedHandler(undefined, contextFor('/orders'));
+    await expect(revalidating.revalidation).rejects.toThrow('Network error');
+    vi.advanceTimersByTime(60000);
+    await wrappedHandler(undefined, contextFor('/orders'));
+
+    expect(onStale.mock.calls.map(([event]) => event.reason)).toEqual(['revalidate', 'error']);
+    expect(onFetchError).toHaveBeenCalledTimes(2);
+    expect(onFetchError).toHaveBeenCalledWith(
+      expect.objectContaining({ path: '/orders', error: networkError })
+    );
+  });
+
+  it('should report capacity evictions of the default storage', async () => {
+    const onEvict = vi.fn();
+    const plugin = cache({ maxSize: 1, onEvict });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+
+    await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/b'));
+
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(onEvict).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'GET:https://api.example.com/a:', path: '/a', reason: 'capacity' })
+    );
+  });
+
+  it('should report manual removals as invalidations', async () => {
+    const onEvict = vi.fn();
+    const onInvalidate = vi.fn();
+    const plugin = cache({ onEvict, onInvalidate });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+
+    const result = await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/b'));
+    await result.invalidate();
+    await plugin.methods!.invalidate('GET', '/b', undefined);
+    await plugin.methods!.invalidateKey('missing');
+
+    expect(onInvalidate.mock.calls.map(([event]) => event.path)).toEqual(['/a', '/b']);
+    expect(onEvict.mock.calls.map(([event]) => event.reason)).toEqual(['manual', 'manual']);
+  });
+
+  it('should report every entry removed by clear() without reading it', async () => {
+    const onEvict = vi.fn();
+    const storage = new InMemoryCacheStorage();
+    const plugin = cache({ onEvict, storage });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+
+    await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/b'));
+    const keys = storage.keys();
+    const peek = vi.spyOn(storage, 'peek');
+    const get = vi.spyOn(storage, 'get');
+    await plugin.methods!.clear();
+
+    expect(onEvict.mock.calls.map(([event]) => [event.key, event.reason])).toEqual([
+      [keys[0], 'clear'],
+      [keys[1], 'clear'],
+    ]);
+    expect(peek).not.toHaveBeenCalled();
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('should support subscribe and unsubscribe', async () => {
+    const plugin = cache();
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+    const onHit = vi.fn();
+    const onMiss = vi.fn();
+
+    const unsubscribeHit = plugin.methods!.subscribe('hit', onHit);
+    plugin.methods!.subscribe('miss', onMiss);
+
+    await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/a'));
+    unsubscribeHit();
+    plugin.methods!.unsubscribe('miss', onMiss);
+    await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/b'));
+
+    expect(onHit).toHaveBeenCalledTimes(1);
+    expect(onMiss).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let a throwing listener break requests', async () => {
+    const plugin = cache({
+      onMiss: () => {
+        throw new Error('listener failed');
+      },
+    });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+
+    const result = await wrappedHandler(undefined, contextFor('/a'));
+    expect(result.data).toBe('data');
+  });
+});
+
+describe('stats()', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count hits, misses and entries per path pattern', async () => {
+    const plugin = cache({ ttl: 60 });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+
+    await wrappedHandler(undefined, contextFor('/users/1'));
+    await wrappedHandler(undefined, contextFor('/users/1'));
+    await wrappedHandler(undefined, contextFor('/users/2'));
+    await wrappedHandler(undefined, contextFor('/teams'));
+
+    const stats = plugin.methods!.stats();
+    expect(stats).toMatchObject({ hits: 1, misses: 3, entries: 3, hitRatio: 0.25 });
+    expect(stats.endpoints.map(({ pattern, hits, misses, entries }) => ({ pattern, hits, misses, entries })))
+      .toEqual([
+        { pattern: '/users/:id', hits: 1, misses: 2, entries: 2 },
+        { pattern: '/teams', hits: 0, misses: 1, entries: 1 },
+      ]);
+  });
+
+  it('should group by rule pattern or a custom statsPattern', async () => {
+    const plugin = cache({ rules: [{ match: '/feed/**', ttl: 10 }] });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+    await wrappedHandler(undefined, contextFor('/feed/latest'));
+    expect(plugin.methods!.stats().endpoints[0].pattern).toBe('/feed/**');
+
+    const custom = cache({ statsPattern: (_method, path) => path.split('/')[1] });
+    const customHandler = custom.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+    await customHandler(undefined, contextFor('/users/abc'));
+    expect(custom.methods!.stats().endpoints[0].pattern).toBe('users');
+  });
+
+  it('should track stale serves, fetch errors, durations and evictions', async () => {
+    const plugin = cache({ ttl: 10, staleIfError: 3600, maxSize: 1 });
+    const mockHandler = vi.fn()
+      .mockImplementationOnce(async () => {
+        vi.advanceTimersByTime(40);
+        return 'data';
+      })
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValue('other');
+    const wrappedHandler = plugin.handlerWrapper!(mockHandler, {} as any);
+
+    await wrappedHandler(undefined, contextFor('/a'));
+    vi.advanceTimersByTime(60000);
+    await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/b'));
+
+    const stats = plugin.methods!.stats();
+    expect(stats).toMatchObject({ misses: 3, stale: 1, fetchErrors: 1, entries: 1 });
+    expect(stats.evictions.expired).toBe(1);
+
+    const a = stats.endpoints.find(({ pattern }) => pattern === '/a')!;
+    expect(a.entries).toBe(0);
+    expect(a.fetchDuration.count).toBe(2);
+    expect(a.fetchDuration.sum).toBe(40);
+    expect(a.fetchDuration.buckets.find(({ le }) => le === 25)!.count).toBe(1);
+    expect(a.fetchDuration.buckets.find(({ le }) => le === 50)!.count).toBe(2);
+  });
+
+  it('should update entry counts on invalidation and clear', async () => {
+    const plugin = cache();
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+    await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/b'));
+    await wrappedHandler(undefined, contextFor('/c'));
+
+    await plugin.methods!.invalidate('GET', '/a', undefined);
+    expect(plugin.methods!.stats()).toMatchObject({ entries: 2, evictions: { manual: 1 } });
+
+    await plugin.methods!.clear();
+    expect(plugin.methods!.stats().entries).toBe(0);
+  });
+
+  it('should only count evictions of entries that existed', async () => {
+    const plugin = cache({ baseUrl: 'https://api.example.com' });
+    await plugin.methods!.invalidate('GET', '/missing', undefined);
+    await plugin.methods!.invalidateKey('missing');
+
+    expect(plugin.methods!.stats().evictions.manual).toBe(0);
+  });
+
+  it('should count clear evictions whether or not anyone listens', async () => {
+    const clearEvictions = async (listen: boolean) => {
+      const plugin = cache();
+      if (listen) {
+        plugin.methods!.subscribe('evict', () => {});
+      }
+      const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+      await wrappedHandler(undefined, contextFor('/a'));
+      await wrappedHandler(undefined, contextFor('/b'));
+      await plugin.methods!.clear();
+      return plugin.methods!.stats();
+    };
+
+    const silent = await clearEvictions(false);
+    expect(silent).toMatchObject({ entries: 0, evictions: { clear: 2 } });
+    expect(await clearEvictions(true)).toEqual(silent);
+  });
+
+  it('should not count entries the storage refused', async () => {
+    const plugin = cache({ maxEntryBytes: 10 });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('x'.repeat(100)), {} as any);
+    await wrappedHandler(undefined, contextFor('/large'));
+
+    expect(plugin.methods!.stats().entries).toBe(0);
+    expect(await plugin.methods!.inspect()).toEqual([]);
+  });
+
+  it('should reset counters but keep entry counts', async () => {
+    const plugin = cache();
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+    await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/a'));
+
+    plugin.methods!.resetStats();
+
+    const stats = plugin.methods!.stats();
+    expect(stats).toMatchObject({ hits: 0, misses: 0, entries: 1, hitRatio: 0 });
+    expect(stats.endpoints[0].fetchDuration.count).toBe(0);
+  });
+});
+
+describe('inspect() / peek()', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should describe every entry with its request, TTL and hits', async () => {
+    const plugin = cache({ ttl: 60, tags: () => ['users'] });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue({ id: 1 }), {} as any);
+    await wrappedHandler({ page: 1 }, contextFor('/users'));
+    await wrappedHandler({ page: 1 }, contextFor('/users'));
+    await wrappedHandler({ page: 1 }, contextFor('/users'));
+    vi.advanceTimersByTime(20000);
+
+    const [info] = await plugin.methods!.inspect();
+    expect(info).toMatchObject({
+      method: 'GET',
+      path: '/users',
+      input: { page: 1 },
+      cachedAt: new Date('2024-06-01T10:00:00Z'),
+      expiresAt: new Date('2024-06-01T10:01:00Z'),
+      ttl: 40000,
+      isStale: false,
+      hits: 2,
+      tags: ['users'],
+    });
+    expect(info.size).toBeGreaterThan(0);
+
+    vi.advanceTimersByTime(60000);
+    expect((await plugin.methods!.inspect())[0]).toMatchObject({ ttl: -20000, isStale: true });
+  });
+
+  it('should not refresh the eviction order or count as a hit', async () => {
+    const plugin = cache({ ttl: 60, maxSize: 2 });
+    const handler = vi.fn().mockImplementation(async (_input, context) => context.path);
+    const wrappedHandler = plugin.handlerWrapper!(handler, {} as any);
+    await wrappedHandler(undefined, contextFor('/a'));
+    await wrappedHandler(undefined, contextFor('/b'));
+
+    expect((await plugin.methods!.peek('GET', '/a', undefined))?.data).toBe('/a');
+    await plugin.methods!.inspect();
+    await wrappedHandler(undefined, contextFor('/c'));
+
+    expect(await plugin.methods!.peek('GET', '/a', undefined)).toBeUndefined();
+    expect(plugin.methods!.stats().hits).toBe(0);
+  });
+
+  it('should return expired entries from peek() without fetching', async () => {
+    const plugin = cache({ ttl: 1 });
+    const handler = vi.fn().mockResolvedValue('data');
+    const wrappedHandler = plugin.handlerWrapper!(handler, {} as any);
+    await wrappedHandler(undefined, contextFor('/a'));
+    vi.advanceTimersByTime(5000);
+
+    expect((await plugin.methods!.peek('GET', '/a', undefined))?.data).toBe('data');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('prefetch()', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reuse the endpoint handler and skip fresh entries', async () => {
+    vi.useFakeTimers();
+    const plugin = cache({ ttl: 60 });
+    const handler = vi.fn().mockImplementation(async (input) => `page ${input.page}`);
+    const wrappedHandler = plugin.handlerWrapper!(handler, {} as any);
+    await wrappedHandler({ page: 1 }, contextFor('/posts'));
+
+    const results = await plugin.methods!.prefetch([
+      { method: 'GET', path: '/posts', input: { page: 1 } },
+      { method: 'GET', path: '/posts', input: { page: 2 } },
+    ]);
+
+    expect(results.map(({ status }) => status)).toEqual(['fresh', 'fetched']);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect((await wrappedHandler({ page: 2 }, contextFor('/posts'))).data).toBe('page 2');
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(61000);
+    const [expired] = await plugin.methods!.prefetch({ method: 'GET', path: '/posts', input: { page: 1 } });
+    expect(expired.status).toBe('fetched');
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should load unseen requests with a load function and a concurrency limit', async () => {
+    const plugin = cache({ ttl: 60, baseUrl: 'https://api.example.com' });
+    let running = 0;
+    let maxRunning = 0;
+    const load = vi.fn().mockImplementation(async ({ path }) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      if (path === '/broken') {
+        throw new Error('Network error');
+      }
+      return path;
+    });
+
+    const results = await plugin.methods!.prefetch(
+      ['/a', '/broken', '/b', '/c', '/d'].map((path) => ({ method: 'GET', path })),
+      { concurrency: 2, load }
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(results.map(({ request, status }) => [request.path, status])).toEqual([
+      ['/a', 'fetched'],
+      ['/broken', 'failed'],
+      ['/b', 'fetched'],
+      ['/c', 'fetched'],
+      ['/d', 'fetched'],
+    ]);
+    expect((results[1].error as Error).message).toBe('Network error');
+    expect((await plugin.methods!.peek('GET', '/c', undefined))?.data).toBe('/c');
+  });
+
+  it('should prefetch every request when the concurrency is not a number', async () => {
+    const plugin = cache({ ttl: 60, baseUrl: 'https://api.example.com' });
+    const load = vi.fn().mockImplementation(async ({ path }) => path);
+
+    const results = await plugin.methods!.prefetch(
+      ['/a', '/b'].map((path) => ({ method: 'GET', path })),
+      { concurrency: NaN, load }
+    );
+
+    expect(results.map(({ status }) => status)).toEqual(['fetched', 'fetched']);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should join a request already in flight', async () => {
+    const plugin = cache({ ttl: 60 });
+    let resolve: (value: string) => void = () => {};
+    const handler = vi.fn().mockImplementation(() => new Promise((r) => { resolve = r; }));
+    const load = vi.fn();
+    const wrappedHandler = plugin.handlerWrapper!(handler, {} as any);
+
+    const pending = wrappedHandler(undefined, contextFor('/slow'));
+    await Promise.resolve();
+    const prefetching = plugin.methods!.prefetch({ method: 'GET', path: '/slow' }, { load });
+    await new Promise((r) => setTimeout(r, 0));
+    resolve('done');
+
+    expect((await prefetching)[0].status).toBe('fetched');
+    expect((await pending).data).toBe('done');
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('should report requests it cannot fetch', async () => {
+    const plugin = cache({ ttl: 60, baseUrl: 'https://api.example.com' });
+
+    const results = await plugin.methods!.prefetch([
+      { method: 'GET', path: '/never-requested' },
+      { method: 'POST', path: '/users' },
+    ]);
+
+    expect(results.map(({ status }) => status)).toEqual(['failed', 'failed']);
+    expect((results[0].error as Error).message).toContain('No handler known for GET /never-requested');
+    expect((results[1].error as Error).message).toBe('POST /users is not cached');
+  });
+
+  it('should store prefetched entries under the keys real requests use', async () => {
+    const plugin = cache({ ttl: 60, baseUrl: 'https://api.example.com' });
+    const load = vi.fn().mockResolvedValue('prefetched');
+    const handler = vi.fn().mockResolvedValue('fetched');
+    const wrappedHandler = plugin.handlerWrapper!(handler, {} as any);
+
+    const [result] = await plugin.methods!.prefetch({ method: 'GET', path: '/users' }, { load });
+    expect(result.key).toBe('GET:https://api.example.com/users:');
+
+    expect((await wrappedHandler(undefined, contextFor('/users'))).data).toBe('prefetched');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should fail clearly while the base URL is unknown', async () => {
+    const plugin = cache({ ttl: 60 });
+    const load = vi.fn();
+
+    const [result] = await plugin.methods!.prefetch({ method: 'GET', path: '/users' }, { load });
+
+    expect(result).toMatchObject({ status: 'failed', key: undefined });
+    expect((result.error as Error).message).toContain('set `baseUrl` in the cache config');
+    expect(load).not.toHaveBeenCalled();
+    await expect(plugin.methods!.peek('GET', '/users', undefined)).rejects.toThrow('before the first request');
+  });
+});
+
+describe('dehydrate() / hydrate()', () => {
+  it('should hand entries over from one client to another', async () => {
+    const server = cache({ ttl: 60 });
+    const serverHandler = server.handlerWrapper!(vi.fn().mockResolvedValue({ id: 1 }), {} as any);
+    await serverHandler(undefined, contextFor('/users/1'));
+    await serverHandler(undefined, contextFor('/settings'));
+
+    const html = JSON.stringify(await server.methods!.dehydrate('/users/*'));
+
+    const browser = cache({ ttl: 60 });
+    const handler = vi.fn().mockResolvedValue({ id: 2 });
+    const browserHandler = browser.handlerWrapper!(handler, {} as any);
+    expect(await browser.methods!.hydrate(JSON.parse(html))).toEqual({ loaded: 1, skipped: 0 });
+
+    const result = await browserHandler(undefined, contextFor('/users/1'));
+    expect(result.data).toEqual({ id: 1 });
+    expect(result.cachedAt).toBeInstanceOf(Date);
+    expect(handler).not.toHaveBeenCalled();
+    expect(await browser.methods!.peek('GET', '/settings', undefined)).toBeUndefined();
+  });
+});
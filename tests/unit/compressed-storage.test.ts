@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CompressedCacheEntry, CompressedCacheStorage, InMemoryCacheStorage } from '../../src/index';
+import { entry } from '../setup';
+
+describe('CompressedCacheStorage', () => {
+  let inner: InMemoryCacheStorage;
+  let storage: CompressedCacheStorage;
+  
+  const largeData = () =>
+    Array.from({ length: 200 }, (_, id) => ({ id, name: `User ${id}`, joined: new Date(id * 1000) }));
+  
+  beforeEach(() => {
+    inner = new InMemoryCacheStorage();
+    storage = new CompressedCacheStorage(inner, { threshold: 256 });
+  });
+  
+  it('should compress large data and record the codec', async () => {
+    const written = { ...entry(largeData()), etag: '"v1"' };
+    await storage.set('users', written);
+    
+    const stored = inner.get('users') as CompressedCacheEntry;
+    expect(stored.codec).toBe('gzip');
+    expect(typeof stored.data).toBe('string');
+    expect(stored.data.length).toBeLessThan(JSON.stringify(largeData()).length / 2);
+    expect(stored.expiresAt).toEqual(written.expiresAt);
+    expect(stored.etag).toBe('"v1"');
+  });
+  
+  it('should restore compressed data including Dates', async () => {
+    await storage.set('users', { ...entry(largeData()), etag: '"v1"' });
+    
+    const restored = (await storage.get('users')) as CompressedCacheEntry;
+    expect(restored.data).toEqual(largeData());
+    expect(restored.data[3].joined).toBeInstanceOf(Date);
+    expect(restored.codec).toBeUndefined();
+    expect(restored.etag).toBe('"v1"');
+  });
+  
+  it('should store data below the threshold as-is', async () => {
+    await storage.set('small', entry({ ok: true }));
+    
+    expect((inner.get('small') as CompressedCacheEntry).codec).toBeUndefined();
+    expect((await storage.get('small'))?.data).toEqual({ ok: true });
+  });
+  
+  it('should store undefined data as-is', async () => {
+    await storage.set('empty', entry(undefined));
+    
+    expect((await storage.get('empty'))?.data).toBeUndefined();
+  });
+  
+  it.each(['deflate', 'deflate-raw'] as const)('should support the %s codec', async (codec) => {
+    storage = new CompressedCacheStorage(inner, { codec, threshold: 0 });
+    await storage.set('users', entry(largeData()));
+    
+    expect((inner.get('users') as CompressedCacheEntry).codec).toBe(codec);
+    expect((await storage.get('users'))?.data).toEqual(largeData());
+  });
+  
+  it('should read entries written with another codec', async () => {
+    await new CompressedCacheStorage(inner, { codec: 'deflate', threshold: 0 }).set('a', entry('x'));
+    
+    expect((await storage.get('a'))?.data).toBe('x');
+  });
+  
+  it('should drop entries that fail to decompress', async () => {
+    inner.set('broken', { ...entry('bm90IGd6aXA='), codec: 'gzip' } as CompressedCacheEntry);
+    
+    expect(await storage.get('broken')).toBeUndefined();
+    expect(inner.get('broken')).toBeUndefined();
+  });
+  
+  it('should pass delete, clear and keys through', async () => {
+    await storage.set('a', entry(largeData()));
+    await storage.set('b', entry(1));
+    expect((await storage.keys()).sort()).toEqual(['a', 'b']);
+    
+    await storage.delete('a');
+    expect(inner.get('a')).toBeUndefined();
+    
+    await storage.clear();
+    expect(inner.keys()).toEqual([]);
+  });
+});
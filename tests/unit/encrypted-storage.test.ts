@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomBytes } from 'crypto';
+import {
+  CompressedCacheStorage,
+  EncryptedCacheEntry,
+  EncryptedCacheStorage,
+  InMemoryCacheStorage
+} from '../../src/index';
+import { entry } from '../setup';
+
+describe('EncryptedCacheStorage', () => {
+  const key = new Uint8Array(randomBytes(32));
+  let inner: InMemoryCacheStorage;
+  let storage: EncryptedCacheStorage;
+  
+  // Entry fields besides the data that must be encrypted as well
+  const details = {
+    etag: '"v1"',
+    request: { method: 'GET', path: '/users/42', input: { include: 'email' } },
+    tags: ['users']
+  };
+  
+  beforeEach(() => {
+    inner = new InMemoryCacheStorage();
+    storage = new EncryptedCacheStorage(inner, { key, keyId: 'k1' });
+  });
+  
+  it('should store only ciphertext with the key ID and IV', async () => {
+    const written = { ...entry({ email: 'ann@example.com' }), ...details };
+    await storage.set('GET:/users/42:', written);
+    
+    const stored = inner.get('GET:/users/42:') as unknown as EncryptedCacheEntry;
+    expect(stored.keyId).toBe('k1');
+    expect(typeof stored.iv).toBe('string');
+    expect(stored.expiresAt).toEqual(written.expiresAt);
+    expect(JSON.stringify(stored)).not.toContain('ann@example.com');
+    expect(JSON.stringify(stored)).not.toContain('/users/42');
+  });
+  
+  it('should restore the full entry', async () => {
+    const written = { ...entry({ email: 'ann@example.com', joined: new Date(0) }), ...details };
+    await storage.set('key', written);
+    
+    expect(await storage.get('key')).toEqual(written);
+  });
+  
+  it('should use a fresh IV for every write', async () => {
+    await storage.set('a', entry('same'));
+    await storage.set('b', entry('same'));
+    
+    const first = inner.get('a') as unknown as EncryptedCacheEntry;
+    const second = inner.get('b') as unknown as EncryptedCacheEntry;
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.data).not.toBe(second.data);
+  });
+  
+  it('should accept a CryptoKey', async () => {
+    const algorithm = { name: 'AES-GCM', length: 256 };
+    const cryptoKey = await globalThis.crypto.subtle.generateKey(algorithm, false, ['encrypt', 'decrypt']);
+    storage = new EncryptedCacheStorage(inner, { key: cryptoKey, keyId: 'generated' });
+    
+    await storage.set('key', entry('secret'));
+    expect((await storage.get('key'))?.data).toBe('secret');
+  });
+  
+  it('should discard entries written with another key', async () => {
+    await storage.set('key', entry('secret'));
+    
+    const rotated = new EncryptedCacheStorage(inner, { key: new Uint8Array(randomBytes(32)), keyId: 'k2' });
+    expect(await rotated.get('key')).toBeUndefined();
+    expect(inner.get('key')).toBeUndefined();
+  });
+  
+  it('should discard entries whose key changed under the same key ID', async () => {
+    await storage.set('key', entry('secret'));
+    
+    const replaced = new EncryptedCacheStorage(inner, { key: new Uint8Array(randomBytes(32)), keyId: 'k1' });
+    expect(await replaced.get('key')).toBeUndefined();
+  });
+  
+  it('should discard tampered or moved entries', async () => {
+    await storage.set('a', entry('secret'));
+    inner.set('b', inner.get('a')!);
+    
+    expect(await storage.get('b')).toBeUndefined();
+    expect(inner.get('b')).toBeUndefined();
+  });
+  
+  it('should discard plaintext entries', async () => {
+    inner.set('plain', entry('not encrypted'));
+    
+    expect(await storage.get('plain')).toBeUndefined();
+  });
+  
+  it('should reject raw keys of an invalid length', () => {
+    expect(() => new EncryptedCacheStorage(inner, { key: new Uint8Array(20), keyId: 'k1' })).toThrow(
+      'raw keys must be 16, 24 or 32 bytes long'
+    );
+  });
+  
+  it('should keep entries when the key cannot be imported', async () => {
+    await storage.set('key', entry('secret'));
+    
+    const crypto = { subtle: { importKey: () => Promise.reject(new Error('Key import failed')) } };
+    const failing = new EncryptedCacheStorage(inner, { key, keyId: 'k1', crypto: crypto as any });
+    await expect(failing.get('key')).rejects.toThrow('Key import failed');
+    expect(inner.get('key')).toBeDefined();
+  });
+  
+  it('should work underneath compression', async () => {
+    const layered = new CompressedCacheStorage(storage, { threshold: 0 });
+    const data = Array.from({ length: 50 }, (_, id) => ({ id, email: `user${id}@example.com` }));
+    
+    await layered.set('users', entry(data));
+    
+    expect(JSON.stringify(inner.get('users'))).not.toContain('example.com');
+    expect((await layered.get('users'))?.data).toEqual(data);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EvictionPolicy,
+  InMemoryCacheStorage,
+  LfuEvictionPolicy,
+  ExpiryEvictionPolicy,
+  createEvictionPolicy
+} from '../../src/index';
+import { entry } from '../setup';
+
+describe('eviction policies under maxSize pressure', () => {
+  it('lru should evict the least recently used entry', () => {
+    const storage = new InMemoryCacheStorage({ maxSize: 3, eviction: 'lru' });
+    storage.set('a', entry(1));
+    storage.set('b', entry(2));
+    storage.set('c', entry(3));
+    storage.get('a');
+    
+    storage.set('d', entry(4));
+    expect(storage.keys().sort()).toEqual(['a', 'c', 'd']);
+    
+    storage.set('e', entry(5));
+    expect(storage.keys().sort()).toEqual(['a', 'd', 'e']);
+  });
+  
+  it('fifo should evict in insertion order regardless of reads and overwrites', () => {
+    const storage = new InMemoryCacheStorage({ maxSize: 3, eviction: 'fifo' });
+    storage.set('a', entry(1));
+    storage.set('b', entry(2));
+    storage.set('c', entry(3));
+    storage.get('a');
+    storage.set('a', entry(10));
+    
+    storage.set('d', entry(4));
+    expect(storage.keys().sort()).toEqual(['b', 'c', 'd']);
+    
+    storage.set('e', entry(5));
+    expect(storage.keys().sort()).toEqual(['c', 'd', 'e']);
+  });
+  
+  it('lfu should evict the least frequently used entry', () => {
+    const storage = new InMemoryCacheStorage({ maxSize: 3, eviction: 'lfu' });
+    storage.set('a', entry(1));
+    storage.set('b', entry(2));
+    storage.set('c', entry(3));
+    storage.get('a');
+    storage.get('a');
+    storage.get('c');
+    
+    storage.set('d', entry(4));
+    expect(storage.keys().sort()).toEqual(['a', 'c', 'd']);
+    
+    // d has a single use, so it goes before c
+    storage.set('e', entry(5));
+    expect(storage.keys().sort()).toEqual(['a', 'c', 'e']);
+  });
+  
+  it('lfu should break ties by least recent use', () => {
+    const storage = new InMemoryCacheStorage({ maxSize: 2, eviction: 'lfu' });
+    storage.set('a', entry(1));
+    storage.set('b', entry(2));
+    storage.get('b');
+    storage.get('a');
+    
+    storage.set('c', entry(3));
+    expect(storage.keys().sort()).toEqual(['a', 'c']);
+  });
+  
+  it('ttl should evict the soonest expiring entry', () => {
+    const storage = new InMemoryCacheStorage({ maxSize: 3, eviction: 'ttl' });
+    storage.set('long', entry(1, 3600));
+    storage.set('short', entry(2, 10));
+    storage.set('medium', entry(3, 300));
+    
+    storage.set('d', entry(4, 600));
+    expect(storage.keys().sort()).toEqual(['d', 'long', 'medium']);
+    
+    storage.set('e', entry(5, 7200));
+    expect(storage.keys().sort()).toEqual(['d', 'e', 'long']);
+  });
+  
+  it('ttl should use the latest expiry of rewritten entries', () => {
+    const storage = new InMemoryCacheStorage({ maxSize: 2, eviction: 'ttl' });
+    storage.set('a', entry(1, 10));
+    storage.set('b', entry(2, 300));
+    storage.set('a', entry(1, 3600));
+    
+    storage.set('c', entry(3, 600));
+    expect(storage.keys().sort()).toEqual(['a', 'c']);
+  });
+  
+  it('should accept a custom policy', () => {
+    const evicted: string[] = [];
+    const keys = new Set<string>();
+    // Evicts the alphabetically last key
+    const policy: EvictionPolicy = {
+      onSet: (key) => { keys.add(key); },
+      onGet: () => {},
+      onDelete: (key) => { keys.delete(key); },
+      clear: () => keys.clear(),
+      evict: () => {
+        const victim = [...keys].sort().pop();
+        if (victim) evicted.push(victim);
+        return victim;
+      }
+    };
+    const storage = new InMemoryCacheStorage({ maxSize: 2, eviction: policy });
+    storage.set('b', entry(1));
+    storage.set('z', entry(2));
+    storage.set('a', entry(3));
+    
+    expect(evicted).toEqual(['z']);
+    expect(storage.keys().sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('policy bookkeeping', () => {
+  it('should report nothing to evict when empty or cleared', () => {
+    for (const name of ['lru', 'lfu', 'fifo', 'ttl'] as const) {
+      const policy = createEvictionPolicy(name);
+      expect(policy.evict()).toBeUndefined();
+      policy.onSet('a', entry(1));
+      policy.clear();
+      expect(policy.evict()).toBeUndefined();
+    }
+  });
+  
+  it('lfu should skip deleted keys in the lowest bucket', () => {
+    const policy: EvictionPolicy = new LfuEvictionPolicy();
+    policy.onSet('a', entry(1));
+    policy.onSet('b', entry(2));
+    policy.onGet('b', entry(2));
+    policy.onDelete('a');
+    
+    expect(policy.evict()).toBe('b');
+  });
+  
+  it('ttl should skip deleted keys', () => {
+    const policy = new ExpiryEvictionPolicy();
+    policy.onSet('a', entry(1, 10));
+    policy.onSet('b', entry(2, 20));
+    policy.onDelete('a');
+    
+    expect(policy.evict()).toBe('b');
+  });
+});
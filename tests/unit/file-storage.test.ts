@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCacheStorage } from '../../src/storage/file';
+import { entry } from '../setup';
+
+describe('FileCacheStorage', () => {
+  let directory: string;
+  let storage: FileCacheStorage;
+  
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'endpoint-fetcher-cache-'));
+    storage = new FileCacheStorage({ directory: join(directory, 'cache') });
+  });
+  
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+  
+  it('should round-trip entries with Date objects restored', async () => {
+    const written = entry({ createdAt: new Date(0), name: 'Ann' });
+    await storage.set('GET:https://api.example.com/users:', written);
+    
+    const restored = await storage.get('GET:https://api.example.com/users:');
+    
+    expect(restored?.cachedAt).toBeInstanceOf(Date);
+    expect(restored?.expiresAt).toEqual(written.expiresAt);
+    expect(restored?.data.createdAt).toEqual(new Date(0));
+    expect(restored?.data.name).toBe('Ann');
+  });
+  
+  it('should persist across storage instances', async () => {
+    await storage.set('key', entry('persisted'));
+    
+    const reopened = new FileCacheStorage({ directory: join(directory, 'cache') });
+    expect((await reopened.get('key'))?.data).toBe('persisted');
+  });
+  
+  it('should use safe file names for any key', async () => {
+    const key = 'GET:https://api.example.com/../../etc/passwd:{"q":"a/b\\\\c"}';
+    await storage.set(key, entry('data'));
+    
+    const files = await fs.readdir(join(directory, 'cache'));
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^[0-9a-f]{32}\.json$/);
+    expect(await storage.keys()).toEqual([key]);
+  });
+  
+  it('should leave no temporary files behind', async () => {
+    await Promise.all([
+      storage.set('key', entry(1)),
+      storage.set('key', entry(2)),
+      storage.set('other', entry(3))
+    ]);
+    
+    const files = await fs.readdir(join(directory, 'cache'));
+    expect(files.filter((name) => name.endsWith('.tmp'))).toEqual([]);
+    expect([1, 2]).toContain((await storage.get('key'))?.data);
+  });
+  
+  it('should treat corrupt files as misses and remove them', async () => {
+    await storage.set('key', entry('data'));
+    const [file] = await fs.readdir(join(directory, 'cache'));
+    await fs.writeFile(join(directory, 'cache', file), '"key"\n{"data": tru');
+    
+    expect(await storage.get('key')).toBeUndefined();
+    expect(await fs.readdir(join(directory, 'cache'))).toEqual([]);
+  });
+  
+  it('should delete, list and clear only its own files', async () => {
+    await storage.set('a', entry(1));
+    await storage.set('b', entry(2));
+    await fs.writeFile(join(directory, 'cache', 'README.txt'), 'keep me');
+    
+    await storage.delete('a');
+    expect(await storage.keys()).toEqual(['b']);
+    
+    await storage.clear();
+    expect(await storage.keys()).toEqual([]);
+    expect(await fs.readdir(join(directory, 'cache'))).toEqual(['README.txt']);
+  });
+  
+  it('should handle a missing directory', async () => {
+    expect(await storage.get('missing')).toBeUndefined();
+    expect(await storage.keys()).toEqual([]);
+    await expect(storage.clear()).resolves.toBeUndefined();
+    await expect(storage.delete('missing')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { IndexedDBCacheStorage } from '../../src/index';
+import { entry } from '../setup';
+
+describe('IndexedDBCacheStorage', () => {
+  let factory: InstanceType<typeof IDBFactory>;
+  let storage: IndexedDBCacheStorage;
+  
+  const create = (options: { databaseName?: string; storeName?: string } = {}) =>
+    new IndexedDBCacheStorage({ ...options, indexedDB: factory, keyRange: IDBKeyRange });
+  
+  beforeEach(() => {
+    // A fresh in-memory IndexedDB per test
+    factory = new IDBFactory();
+    storage = create();
+  });
+  
+  afterEach(async () => {
+    await storage.close();
+  });
+  
+  it('should store entries as structured clones', async () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+    await storage.set('GET:/users:', entry({ joined: new Date(0), bytes, tags: new Set(['a']) }));
+    
+    const restored = await storage.get('GET:/users:');
+    
+    expect(restored?.expiresAt).toBeInstanceOf(Date);
+    expect(restored?.data.joined).toEqual(new Date(0));
+    expect(restored?.data.bytes).toBeInstanceOf(Uint8Array);
+    expect(Array.from(restored?.data.bytes)).toEqual([1, 2, 3]);
+    expect(restored?.data.tags).toEqual(new Set(['a']));
+  });
+  
+  it('should support get, delete, keys and clear', async () => {
+    expect(await storage.get('missing')).toBeUndefined();
+    
+    await storage.set('a', entry(1));
+    await storage.set('b', entry(2));
+    expect((await storage.keys()).sort()).toEqual(['a', 'b']);
+    
+    await storage.delete('a');
+    expect(await storage.get('a')).toBeUndefined();
+    expect(await storage.keys()).toEqual(['b']);
+    
+    await storage.clear();
+    expect(await storage.keys()).toEqual([]);
+  });
+  
+  it('should persist across instances', async () => {
+    await storage.set('key', entry('persisted'));
+    await storage.close();
+    
+    storage = create();
+    expect((await storage.get('key'))?.data).toBe('persisted');
+  });
+  
+  it('should keep separate stores apart within one database', async () => {
+    const other = create({ storeName: 'other-client' });
+    
+    await storage.set('key', entry('default'));
+    await other.set('key', entry('other'));
+    
+    expect((await storage.get('key'))?.data).toBe('default');
+    expect((await other.get('key'))?.data).toBe('other');
+    
+    await other.clear();
+    expect((await storage.get('key'))?.data).toBe('default');
+    await other.close();
+  });
+  
+  it('should keep separate databases apart', async () => {
+    const other = create({ databaseName: 'other-app' });
+    
+    await storage.set('key', entry('default'));
+    expect(await other.get('key')).toBeUndefined();
+    await other.close();
+  });
+  
+  it('should remove expired entries through the expiresAt index', async () => {
+    await storage.set('expired', entry('old', -10));
+    await storage.set('also-expired', entry('old', -1));
+    await storage.set('fresh', entry('new'));
+    
+    expect(await storage.removeExpired()).toBe(2);
+    expect(await storage.keys()).toEqual(['fresh']);
+  });
+  
+  it('should report a missing IndexedDB implementation', async () => {
+    // Node has no global indexedDB
+    const unavailable = new IndexedDBCacheStorage();
+    
+    await expect(unavailable.get('key')).rejects.toThrow('indexedDB is not available');
+  });
+});
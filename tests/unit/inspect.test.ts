@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { CacheEntryInfo, formatEntryTable } from '../../src/index';
+
+describe('formatEntryTable', () => {
+  const info = (overrides: Partial<CacheEntryInfo> = {}): CacheEntryInfo => ({
+    key: 'GET:/users/7:',
+    method: 'GET',
+    path: '/users/7',
+    cachedAt: new Date('2024-06-01T10:00:00Z'),
+    expiresAt: new Date('2024-06-01T10:05:00Z'),
+    ttl: 252000,
+    isStale: false,
+    size: 1229,
+    hits: 3,
+    ...overrides
+  });
+  
+  it('should align a header, a separator and one row per entry', () => {
+    const lines = formatEntryTable([info(), info({ key: 'k', method: undefined, path: undefined, hits: 12 })])
+      .split('\n');
+    
+    expect(lines).toEqual([
+      'Key            Method  Path      Cached at                 Expires in  Size    Hits',
+      '-------------  ------  --------  ------------------------  ----------  ------  ----',
+      'GET:/users/7:  GET     /users/7  2024-06-01T10:00:00.000Z  4m 12s      1.2 KB  3',
+      'k              -       -         2024-06-01T10:00:00.000Z  4m 12s      1.2 KB  12'
+    ]);
+  });
+  
+  it('should format durations, expired entries and sizes', () => {
+    const table = formatEntryTable([
+      info({ ttl: 950, size: 512 }),
+      info({ ttl: 42000, size: 3 * 1024 * 1024 }),
+      info({ ttl: 7800000 }),
+      info({ ttl: -65000, isStale: true })
+    ]);
+    
+    expect(table).toContain('950ms');
+    expect(table).toContain('512 B');
+    expect(table).toContain('42s');
+    expect(table).toContain('3.0 MB');
+    expect(table).toContain('2h 10m');
+    expect(table).toContain('expired 1m 5s ago');
+  });
+  
+  it('should shorten long cells', () => {
+    const table = formatEntryTable([info({ key: 'x'.repeat(100) })], { maxColumnWidth: 10 });
+    
+    expect(table.split('\n')[2].startsWith(`${'x'.repeat(9)}…  `)).toBe(true);
+  });
+  
+  it('should render only the header without entries', () => {
+    expect(formatEntryTable([]).split('\n')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { cache, canonicalStringify, defaultKeyGenerator, hashKey } from '../../src/index';
+
+describe('canonicalStringify()', () => {
+  it('should ignore object key order', () => {
+    expect(canonicalStringify({ a: 1, b: { c: 2, d: 3 } }))
+      .toBe(canonicalStringify({ b: { d: 3, c: 2 }, a: 1 }));
+  });
+  
+  it('should keep array order', () => {
+    expect(canonicalStringify([1, 2])).not.toBe(canonicalStringify([2, 1]));
+  });
+  
+  it('should serialize Dates, Maps, Sets and BigInts by content', () => {
+    const date = new Date('2024-01-01T00:00:00Z');
+    expect(canonicalStringify({ date })).toBe('{"date":Date(2024-01-01T00:00:00.000Z)}');
+    expect(canonicalStringify(BigInt(42))).toBe('42n');
+    expect(canonicalStringify(new Map([['b', 2], ['a', 1]])))
+      .toBe(canonicalStringify(new Map([['a', 1], ['b', 2]])));
+    expect(canonicalStringify(new Set([2, 1]))).toBe(canonicalStringify(new Set([1, 2])));
+    expect(canonicalStringify(new Set([1]))).not.toBe(canonicalStringify(new Set([2])));
+  });
+  
+  it('should distinguish values JSON.stringify conflates', () => {
+    expect(canonicalStringify(NaN)).not.toBe(canonicalStringify(null));
+    expect(canonicalStringify('1')).not.toBe(canonicalStringify(1));
+    expect(canonicalStringify(new Date(1))).not.toBe(canonicalStringify(new Date(2)));
+  });
+  
+  it('should skip undefined properties like JSON', () => {
+    expect(canonicalStringify({ a: 1, b: undefined })).toBe(canonicalStringify({ a: 1 }));
+  });
+  
+  it('should not throw on cycles', () => {
+    const value: any = { a: 1 };
+    value.self = value;
+    expect(canonicalStringify(value)).toBe('{"a":1,"self":[Circular]}');
+  });
+});
+
+describe('defaultKeyGenerator()', () => {
+  it('should include the method, base URL, path and canonical input', () => {
+    expect(defaultKeyGenerator('GET', '/users', { b: 2, a: 1 }, 'https://api.example.com'))
+      .toBe('GET:https://api.example.com/users:{"a":1,"b":2}');
+  });
+  
+  it('should leave the input part empty without input', () => {
+    expect(defaultKeyGenerator('GET', '/users', undefined)).toBe('GET:/users:');
+  });
+});
+
+describe('hashKey()', () => {
+  it('should return a stable 32 character hex digest', () => {
+    expect(hashKey('GET:/users')).toMatch(/^[0-9a-f]{32}$/);
+    expect(hashKey('GET:/users')).toBe(hashKey('GET:/users'));
+    expect(hashKey('GET:/users')).not.toBe(hashKey('GET:/user'));
+  });
+});
+
+describe('cache keys in the plugin', () => {
+  const createStorage = () => {
+    const entries = new Map<string, any>();
+    return {
+      entries,
+      get: (key: string) => entries.get(key),
+      set: (key: string, value: any) => { entries.set(key, value); },
+      delete: (key: string) => { entries.delete(key); },
+      clear: () => { entries.clear(); },
+      keys: () => Array.from(entries.keys())
+    };
+  };
+  
+  const contextFor = (baseUrl: string) => ({
+    method: 'GET' as const,
+    path: '/users',
+    baseUrl,
+    fetch: vi.fn()
+  });
+  
+  it('should keep clients with different base URLs apart in shared storage', async () => {
+    const storage = createStorage();
+    const first = cache({ storage }).handlerWrapper!(vi.fn().mockResolvedValue('a'), {} as any);
+    const second = cache({ storage }).handlerWrapper!(vi.fn().mockResolvedValue('b'), {} as any);
+    
+    await first(undefined, contextFor('https://a.example.com'));
+    const result = await second(undefined, contextFor('https://b.example.com'));
+    
+    expect(result.data).toBe('b');
+    expect(storage.entries.size).toBe(2);
+  });
+  
+  it('should hit the cache for inputs with reordered keys', async () => {
+    const mockHandler = vi.fn().mockResolvedValue('data');
+    const wrappedHandler = cache().handlerWrapper!(mockHandler, {} as any);
+    
+    await wrappedHandler({ page: 1, sort: 'name' }, contextFor('https://api.example.com'));
+    await wrappedHandler({ sort: 'name', page: 1 }, contextFor('https://api.example.com'));
+    
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+  });
+  
+  it('should hash keys longer than maxKeyLength to a fixed length', async () => {
+    const storage = createStorage();
+    const plugin = cache({ storage, maxKeyLength: 80 });
+    const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+    
+    await wrappedHandler({ ids: Array.from({ length: 100 }, (_, i) => i) }, contextFor('https://api.example.com'));
+    await wrappedHandler({ ids: [1] }, contextFor('https://api.example.com'));
+    
+    const [long, short] = storage.keys();
+    expect(long).toHaveLength(80);
+    expect(long).toMatch(/^GET:https:\/\/api\.example\.com\/users:.*#[0-9a-f]{32}$/);
+    expect(short).toBe('GET:https://api.example.com/users:{"ids":[1]}');
+    
+    await plugin.methods!.invalidate('GET', '/users', { ids: Array.from({ length: 100 }, (_, i) => i) });
+    expect(storage.keys()).toEqual([short]);
+  });
+  
+  it('should keep keys exactly at maxKeyLength when it leaves no room for a prefix', async () => {
+    for (const maxKeyLength of [8, 32, 33]) {
+      const storage = createStorage();
+      const plugin = cache({ storage, maxKeyLength });
+      const wrappedHandler = plugin.handlerWrapper!(vi.fn().mockResolvedValue('data'), {} as any);
+      
+      await wrappedHandler({ id: 1 }, contextFor('https://api.example.com'));
+      
+      expect(storage.keys()[0]).toHaveLength(maxKeyLength);
+    }
+  });
+});
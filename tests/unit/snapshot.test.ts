@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CACHE_SNAPSHOT_VERSION,
+  CacheSnapshot,
+  dehydrateStorage,
+  hydrateStorage,
+  InMemoryCacheStorage
+} from '../../src/index';
+import { entry } from '../setup';
+
+describe('dehydrateStorage / hydrateStorage', () => {
+  let source: InMemoryCacheStorage;
+  let target: InMemoryCacheStorage;
+  
+  // Round-trips a snapshot through a JSON string, as when embedded in a page
+  const transfer = (snapshot: CacheSnapshot): CacheSnapshot => JSON.parse(JSON.stringify(snapshot));
+  
+  beforeEach(() => {
+    source = new InMemoryCacheStorage();
+    target = new InMemoryCacheStorage();
+  });
+  
+  it('should copy fresh entries with their dates', async () => {
+    source.set('posts', entry({ title: 'Hello', publishedAt: new Date('2024-01-01T00:00:00Z') }));
+    source.set('expired', entry('old', 60, new Date(Date.now() - 120000)));
+    
+    const snapshot = transfer(await dehydrateStorage(source));
+    
+    expect(snapshot.version).toBe(CACHE_SNAPSHOT_VERSION);
+    expect(snapshot.entries.map(({ key }) => key)).toEqual(['posts']);
+    expect(await hydrateStorage(target, snapshot)).toEqual({ loaded: 1, skipped: 0 });
+    expect(target.get('posts')).toEqual(source.get('posts'));
+  });
+  
+  it('should filter entries', async () => {
+    source.set('a', entry('a'));
+    source.set('b', entry('b'));
+    
+    const snapshot = await dehydrateStorage(source, (value) => value.data === 'b');
+    
+    expect(snapshot.entries.map(({ key }) => key)).toEqual(['b']);
+  });
+  
+  it('should not overwrite newer entries', async () => {
+    const now = Date.now();
+    source.set('newer', entry('from snapshot', 60, new Date(now - 1000)));
+    source.set('older', entry('from snapshot', 60, new Date(now - 1000)));
+    target.set('newer', entry('local', 60, new Date(now)));
+    target.set('older', entry('local', 60, new Date(now - 5000)));
+    
+    const result = await hydrateStorage(target, transfer(await dehydrateStorage(source)));
+    
+    expect(result).toEqual({ loaded: 1, skipped: 1 });
+    expect(target.get('newer')?.data).toBe('local');
+    expect(target.get('older')?.data).toBe('from snapshot');
+  });
+  
+  it('should skip entries that expired in transit or are malformed', async () => {
+    const snapshot: CacheSnapshot = {
+      version: CACHE_SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      entries: [
+        {
+          key: 'expired',
+          entry: { data: 1, cachedAt: { $date: '2000-01-01T00:00:00Z' }, expiresAt: { $date: '2000-01-01T00:01:00Z' } }
+        },
+        { key: 'malformed', entry: { data: 1, expiresAt: '2999-01-01T00:00:00Z' } },
+        {
+          key: 'invalid-date',
+          entry: { data: 1, cachedAt: { $date: '2000-01-01T00:00:00Z' }, expiresAt: { $date: null } }
+        }
+      ]
+    };
+    
+    expect(await hydrateStorage(target, snapshot)).toEqual({ loaded: 0, skipped: 3 });
+    expect(target.keys()).toEqual([]);
+  });
+  
+  it('should count entries the storage refused as skipped', async () => {
+    source.set('large', entry('x'.repeat(50)));
+    const small = new InMemoryCacheStorage({ maxEntryBytes: 10, sizeOf: (value) => String(value.data).length });
+    
+    expect(await hydrateStorage(small, await dehydrateStorage(source))).toEqual({ loaded: 0, skipped: 1 });
+  });
+  
+  it('should reject snapshots of another version', async () => {
+    const snapshot = { version: 0, createdAt: new Date().toISOString(), entries: [{ key: 'a', entry: {} }] };
+    
+    await expect(hydrateStorage(target, snapshot)).rejects.toThrow('Unsupported cache snapshot version 0; expected 1');
+    await expect(hydrateStorage(target, null as any)).rejects.toThrow('Invalid cache snapshot');
+    await expect(hydrateStorage(target, { version: 1 } as any)).rejects.toThrow('entries must be an array');
+  });
+});
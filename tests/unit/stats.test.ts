@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CacheEndpointStats,
+  CacheStats,
+  FETCH_DURATION_BUCKETS,
+  normalizePathPattern,
+  toPrometheus
+} from '../../src/index';
+
+describe('normalizePathPattern', () => {
+  it('should replace identifier-like segments and drop the query string', () => {
+    expect(normalizePathPattern('/users/42/orders?page=2')).toBe('/users/:id/orders');
+    expect(normalizePathPattern('/files/3f2b8c1e-9a4d-4e2f-8b7a-1c2d3e4f5a6b')).toBe('/files/:id');
+    expect(normalizePathPattern('/commits/0123456789abcdef0123')).toBe('/commits/:id');
+    expect(normalizePathPattern('/users/me')).toBe('/users/me');
+  });
+});
+
+describe('toPrometheus', () => {
+  const endpoint = (overrides: Partial<CacheEndpointStats> = {}): CacheEndpointStats => ({
+    method: 'GET',
+    pattern: '/users/:id',
+    hits: 3,
+    misses: 1,
+    stale: 0,
+    evictions: { capacity: 2, expired: 0, oversized: 0, manual: 1, clear: 0 },
+    entries: 5,
+    fetchErrors: 0,
+    fetchDuration: {
+      count: 1,
+      sum: 120,
+      buckets: FETCH_DURATION_BUCKETS.map((le) => ({ le, count: le >= 250 ? 1 : 0 }))
+    },
+    ...overrides
+  });
+  
+  const stats = (endpoints: CacheEndpointStats[]): CacheStats => ({
+    hits: 0,
+    misses: 0,
+    stale: 0,
+    evictions: { capacity: 0, expired: 0, oversized: 0, manual: 0, clear: 0 },
+    entries: 0,
+    fetchErrors: 0,
+    hitRatio: 0,
+    endpoints
+  });
+  
+  it('should write counters and gauges with HELP and TYPE lines', () => {
+    const text = toPrometheus(stats([endpoint()]));
+    
+    expect(text).toContain('# TYPE endpoint_fetcher_cache_hits_total counter');
+    expect(text).toContain('endpoint_fetcher_cache_hits_total{method="GET",pattern="/users/:id"} 3');
+    expect(text).toContain('# TYPE endpoint_fetcher_cache_entries gauge');
+    expect(text).toContain('endpoint_fetcher_cache_entries{method="GET",pattern="/users/:id"} 5');
+    expect(text).toContain(
+      'endpoint_fetcher_cache_evictions_total{method="GET",pattern="/users/:id",reason="capacity"} 2'
+    );
+    expect(text.endsWith('\n')).toBe(true);
+  });
+  
+  it('should write fetch durations as a histogram in seconds', () => {
+    const text = toPrometheus(stats([endpoint()]));
+    
+    expect(text).toContain('# TYPE endpoint_fetcher_cache_fetch_duration_seconds histogram');
+    expect(text).toContain('endpoint_fetcher_cache_fetch_duration_seconds_bucket{method="GET",pattern="/users/:id",le="0.1"} 0');
+    expect(text).toContain('endpoint_fetcher_cache_fetch_duration_seconds_bucket{method="GET",pattern="/users/:id",le="0.25"} 1');
+    expect(text).toContain('endpoint_fetcher_cache_fetch_duration_seconds_bucket{method="GET",pattern="/users/:id",le="+Inf"} 1');
+    expect(text).toContain('endpoint_fetcher_cache_fetch_duration_seconds_sum{method="GET",pattern="/users/:id"} 0.12');
+    expect(text).toContain('endpoint_fetcher_cache_fetch_duration_seconds_count{method="GET",pattern="/users/:id"} 1');
+  });
+  
+  it('should escape label values and accept a prefix', () => {
+    const text = toPrometheus(stats([endpoint({ pattern: '/search/"q"\\x' })]), 'api_cache');
+    
+    expect(text).toContain('api_cache_hits_total{method="GET",pattern="/search/\\"q\\"\\\\x"} 3');
+  });
+});
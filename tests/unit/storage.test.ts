@@ -1,5 +1,13 @@
 import { describe, it, expect, vi } from 'vitest';
-import { CacheStorage, CacheEntry } from '../../src/index';
+import {
+  CacheStorage,
+  CacheEntry,
+  InMemoryCacheStorage,
+  estimateEntrySize,
+  serializeEntry,
+  deserializeEntry
+} from '../../src/index';
+import { entry } from '../setup';
 
 describe('CacheStorage interface', () => {
   it('should enforce correct method signatures', () => {
@@ -50,9 +58,262 @@ describe('CacheStorage interface', () => {
     
     customStorage.set('key1', entry);
     customStorage.set('key2', entry);
-    expect(customStorage.keys().length).toBe(2);
+    expect(customStorage.keys()).toHaveLength(2);
     
     customStorage.clear();
-    expect(customStorage.keys().length).toBe(0);
+    expect(customStorage.keys()).toHaveLength(0);
   });
-});
\ No newline at end of file
+  
+  it('should allow Promise-based storage implementations', async () => {
+    const entries = new Map<string, CacheEntry>();
+    
+    const asyncStorage: CacheStorage = {
+      get: async (key: string) => entries.get(key),
+      set: async (key: string, value: CacheEntry) => {
+        entries.set(key, value);
+      },
+      delete: async (key: string) => {
+        entries.delete(key);
+      },
+      clear: async () => {
+        entries.clear();
+      },
+      keys: async () => Array.from(entries.keys())
+    };
+    
+    const entry: CacheEntry = {
+      data: 'test',
+      cachedAt: new Date(),
+      expiresAt: new Date(Date.now() + 1000)
+    };
+    
+    await asyncStorage.set('test-key', entry);
+    expect(await asyncStorage.get('test-key')).toEqual(entry);
+    expect(await asyncStorage.keys()).toEqual(['test-key']);
+    
+    await asyncStorage.clear();
+    expect(await asyncStorage.keys()).toEqual([]);
+  });
+});
+
+describe('InMemoryCacheStorage', () => {
+  it('should evict the least recently used entry when full', () => {
+    const storage = new InMemoryCacheStorage(3);
+    storage.set('a', entry(1));
+    storage.set('b', entry(2));
+    storage.set('c', entry(3));
+    
+    storage.get('a');
+    storage.set('d', entry(4));
+    
+    expect(storage.get('b')).toBeUndefined();
+    expect(storage.keys().sort()).toEqual(['a', 'c', 'd']);
+  });
+  
+  it('should treat overwrites as recent use without evicting', () => {
+    const storage = new InMemoryCacheStorage(2);
+    storage.set('a', entry(1));
+    storage.set('b', entry(2));
+    storage.set('a', entry(3));
+    storage.set('c', entry(4));
+    
+    expect(storage.get('a')?.data).toBe(3);
+    expect(storage.get('b')).toBeUndefined();
+  });
+  
+  it('should free capacity on delete', () => {
+    const storage = new InMemoryCacheStorage(2);
+    storage.set('a', entry(1));
+    storage.set('b', entry(2));
+    storage.delete('a');
+    storage.set('c', entry(3));
+    
+    expect(storage.keys().sort()).toEqual(['b', 'c']);
+  });
+  
+  it('should do the same work per hit whatever the entry count', () => {
+    // Counts the collection operations of one hit, including every step of an iteration
+    const hitOperations = (size: number) => {
+      const storage = new InMemoryCacheStorage(size);
+      for (let i = 0; i < size; i++) {
+        storage.set(`key-${i}`, entry(i));
+      }
+      const mapIterator = Object.getPrototypeOf(new Map().keys());
+      const spies = [
+        ...(['get', 'set', 'delete', 'forEach'] as const).map((method) => vi.spyOn(Map.prototype, method)),
+        vi.spyOn(mapIterator, 'next'),
+        ...(['indexOf', 'findIndex', 'splice', 'filter', 'forEach'] as const).map((method) =>
+          vi.spyOn(Array.prototype, method)
+        )
+      ];
+      try {
+        storage.get('key-0');
+        return spies.map((spy) => spy.mock.calls.length);
+      } finally {
+        spies.forEach((spy) => spy.mockRestore());
+      }
+    };
+    
+    expect(hitOperations(10000)).toEqual(hitOperations(10));
+  });
+  
+  it('should report the entries it evicts with a reason', () => {
+    const storage = new InMemoryCacheStorage({
+      maxSize: 2,
+      maxEntryBytes: 10,
+      sizeOf: (value) => String(value.data).length
+    });
+    const listener = vi.fn();
+    const unsubscribe = storage.onEvict(listener);
+    const expired: CacheEntry = { data: 'old', cachedAt: new Date(0), expiresAt: new Date(1000) };
+    
+    storage.set('expired', expired);
+    storage.set('a', entry('a'));
+    storage.set('b', entry('b'));
+    storage.set('c', entry('c'));
+    storage.set('c', entry('much too large'));
+    storage.delete('b');
+    
+    expect(listener.mock.calls.map(([key, , reason]) => [key, reason])).toEqual([
+      ['expired', 'expired'],
+      ['a', 'capacity'],
+      ['c', 'oversized']
+    ]);
+    expect(listener.mock.calls[0][1]).toBe(expired);
+    
+    unsubscribe();
+    storage.set('d', entry('d'));
+    storage.set('e', entry('e'));
+    storage.set('f', entry('f'));
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+  
+  it('should peek without refreshing the eviction order', () => {
+    const storage = new InMemoryCacheStorage(2);
+    storage.set('a', entry('a'));
+    storage.set('b', entry('b'));
+    
+    expect(storage.peek('a')?.data).toBe('a');
+    storage.set('c', entry('c'));
+    
+    expect(storage.keys()).toEqual(['b', 'c']);
+  });
+});
+
+describe('InMemoryCacheStorage byte budget', () => {
+  // Measure entries by their string length to keep the numbers readable
+  const sizeOf = (value: CacheEntry) => String(value.data).length;
+  
+  it('should evict least recently used entries until the new entry fits', () => {
+    const storage = new InMemoryCacheStorage({ maxBytes: 10, sizeOf });
+    storage.set('a', entry('xxxx'));
+    storage.set('b', entry('xxxx'));
+    storage.get('a');
+    storage.set('c', entry('xxxxxx'));
+    
+    expect(storage.keys().sort()).toEqual(['a', 'c']);
+    expect(storage.bytes).toBe(10);
+  });
+  
+  it('should evict several entries for one large entry', () => {
+    const storage = new InMemoryCacheStorage({ maxBytes: 10, sizeOf });
+    storage.set('a', entry('xxx'));
+    storage.set('b', entry('xxx'));
+    storage.set('c', entry('xxx'));
+    storage.set('d', entry('xxxxxxxx'));
+    
+    expect(storage.keys()).toEqual(['d']);
+    expect(storage.bytes).toBe(8);
+  });
+  
+  it('should skip entries larger than maxEntryBytes', () => {
+    const storage = new InMemoryCacheStorage({ maxEntryBytes: 5, sizeOf });
+    storage.set('a', entry('small'));
+    storage.set('b', entry('much too large'));
+    
+    expect(storage.keys()).toEqual(['a']);
+    
+    // Replacing an entry with an oversized one drops the outdated value
+    storage.set('a', entry('much too large'));
+    expect(storage.get('a')).toBeUndefined();
+    expect(storage.bytes).toBe(0);
+  });
+  
+  it('should skip entries larger than maxBytes without evicting the others', () => {
+    const storage = new InMemoryCacheStorage({ maxBytes: 10, sizeOf });
+    const listener = vi.fn();
+    storage.onEvict(listener);
+    storage.set('a', entry('xxxx'));
+    storage.set('b', entry('x'.repeat(50)));
+    
+    expect(storage.keys()).toEqual(['a']);
+    expect(storage.bytes).toBe(4);
+    expect(listener).not.toHaveBeenCalled();
+  });
+  
+  it('should track bytes across overwrites, deletes and clear', () => {
+    const storage = new InMemoryCacheStorage({ maxBytes: 100, sizeOf });
+    storage.set('a', entry('xxxx'));
+    storage.set('a', entry('xx'));
+    storage.set('b', entry('xxx'));
+    expect(storage.bytes).toBe(5);
+    
+    storage.delete('a');
+    expect(storage.bytes).toBe(3);
+    
+    storage.clear();
+    expect(storage.bytes).toBe(0);
+  });
+  
+  it('should combine maxSize and maxBytes limits', () => {
+    const storage = new InMemoryCacheStorage({ maxSize: 2, maxBytes: 100, sizeOf });
+    storage.set('a', entry('x'));
+    storage.set('b', entry('x'));
+    storage.set('c', entry('x'));
+    
+    expect(storage.keys()).toEqual(['b', 'c']);
+  });
+});
+
+describe('estimateEntrySize', () => {
+  it('should grow with the size of the data', () => {
+    const small = estimateEntrySize(entry('a'.repeat(10)));
+    const large = estimateEntrySize(entry('a'.repeat(1000)));
+    
+    expect(large - small).toBe(990 * 2);
+  });
+  
+  it('should count binary data by byte length', () => {
+    const base = estimateEntrySize(entry(null));
+    expect(estimateEntrySize(entry(new Uint8Array(1024))) - base).toBe(1024);
+  });
+  
+  it('should handle cycles, Maps, Sets and BigInts', () => {
+    const data: any = { map: new Map([['k', 1]]), set: new Set(['v']), big: BigInt(10) };
+    data.self = data;
+    
+    expect(estimateEntrySize(entry(data))).toBeGreaterThan(0);
+  });
+});
+
+describe('serializeEntry() / deserializeEntry()', () => {
+  it('should restore Dates in the entry and its data', () => {
+    const entry: CacheEntry = {
+      data: { updatedAt: new Date('2024-01-01T00:00:00Z'), list: [new Date(0)] },
+      cachedAt: new Date('2024-01-01T00:00:00Z'),
+      expiresAt: new Date('2024-01-01T00:05:00Z')
+    };
+    
+    const restored = deserializeEntry(serializeEntry(entry));
+    
+    expect(restored).toEqual(entry);
+    expect(restored?.expiresAt).toBeInstanceOf(Date);
+    expect(restored?.data.list[0]).toBeInstanceOf(Date);
+  });
+  
+  it('should return undefined for malformed input', () => {
+    expect(deserializeEntry('not json')).toBeUndefined();
+    expect(deserializeEntry('null')).toBeUndefined();
+    expect(deserializeEntry('{"data":1,"cachedAt":"2024-01-01","expiresAt":"2024-01-02"}')).toBeUndefined();
+  });
+});
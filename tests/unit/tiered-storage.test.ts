@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CacheEntry, CacheStorage, InMemoryCacheStorage, TieredCacheStorage } from '../../src/index';
+import { entry } from '../setup';
+
+/**
+ * Asynchronous storage standing in for a persistent layer
+ */
+class SlowStorage implements CacheStorage {
+  entries = new Map<string, CacheEntry>();
+  
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+  
+  async set(key: string, value: CacheEntry) {
+    this.entries.set(key, value);
+  }
+  
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+  
+  async clear() {
+    this.entries.clear();
+  }
+  
+  async keys() {
+    return Array.from(this.entries.keys());
+  }
+}
+
+describe('TieredCacheStorage', () => {
+  let memory: InMemoryCacheStorage;
+  let persistent: SlowStorage;
+  let storage: TieredCacheStorage;
+  
+  beforeEach(() => {
+    memory = new InMemoryCacheStorage(2);
+    persistent = new SlowStorage();
+    storage = new TieredCacheStorage([memory, persistent]);
+  });
+  
+  it('should write to every layer', async () => {
+    await storage.set('a', entry(1));
+    
+    expect(memory.get('a')?.data).toBe(1);
+    expect((await persistent.get('a'))?.data).toBe(1);
+  });
+  
+  it('should serve from the first layer without touching the next', async () => {
+    await storage.set('a', entry(1));
+    const slowGet = vi.spyOn(persistent, 'get');
+    
+    expect((await storage.get('a'))?.data).toBe(1);
+    expect(slowGet).not.toHaveBeenCalled();
+  });
+  
+  it('should promote hits from a slower layer', async () => {
+    await persistent.set('a', entry('persisted'));
+    
+    expect((await storage.get('a'))?.data).toBe('persisted');
+    expect(memory.get('a')?.data).toBe('persisted');
+  });
+  
+  it('should serve hits from a slower layer when promoting them fails', async () => {
+    await persistent.set('a', entry('persisted'));
+    vi.spyOn(memory, 'set').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    
+    expect((await storage.get('a'))?.data).toBe('persisted');
+  });
+  
+  it('should keep serving entries evicted from the first layer', async () => {
+    await storage.set('a', entry(1));
+    await storage.set('b', entry(2));
+    await storage.set('c', entry(3));
+    
+    expect(memory.get('a')).toBeUndefined();
+    expect((await storage.get('a'))?.data).toBe(1);
+  });
+  
+  it('should return undefined when no layer has the entry', async () => {
+    expect(await storage.get('missing')).toBeUndefined();
+  });
+  
+  it('should propagate deletes and clears to every layer', async () => {
+    await storage.set('a', entry(1));
+    await storage.set('b', entry(2));
+    
+    await storage.delete('a');
+    expect(memory.get('a')).toBeUndefined();
+    expect(await persistent.get('a')).toBeUndefined();
+    
+    await storage.clear();
+    expect(memory.keys()).toEqual([]);
+    expect(await persistent.keys()).toEqual([]);
+  });
+  
+  it('should list the keys of all layers once', async () => {
+    await storage.set('a', entry(1));
+    await persistent.set('b', entry(2));
+    
+    expect((await storage.keys()).sort()).toEqual(['a', 'b']);
+  });
+  
+  it('should peek through the layers without promoting', async () => {
+    await persistent.set('a', entry(1));
+    
+    expect((await storage.peek('a'))?.data).toBe(1);
+    expect(memory.get('a')).toBeUndefined();
+  });
+  
+  it('should require at least one layer', () => {
+    expect(() => new TieredCacheStorage([])).toThrow('at least one layer');
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WebStorageCacheStorage, WebStorageLike } from '../../src/index';
+import { entry } from '../setup';
+
+/**
+ * In-memory stand-in for localStorage with a quota on the total stored characters
+ */
+class MemoryStorage implements WebStorageLike {
+  items = new Map<string, string>();
+  
+  constructor(private quota = Infinity) {}
+  
+  get length() {
+    return this.items.size;
+  }
+  
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+  
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  
+  setItem(key: string, value: string) {
+    let used = 0;
+    this.items.forEach((item, name) => {
+      if (name !== key) used += name.length + item.length;
+    });
+    if (used + key.length + value.length > this.quota) {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    }
+    this.items.set(key, value);
+  }
+  
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+const secondsAgo = (seconds: number) => new Date(Date.now() - seconds * 1000);
+
+describe('WebStorageCacheStorage', () => {
+  let backing: MemoryStorage;
+  let storage: WebStorageCacheStorage;
+  
+  beforeEach(() => {
+    backing = new MemoryStorage();
+    storage = new WebStorageCacheStorage(backing, { prefix: 'app:' });
+  });
+  
+  it('should restore Dates so freshness checks keep working', () => {
+    storage.set('GET:/users:', entry({ joined: new Date(0) }));
+    
+    const restored = storage.get('GET:/users:');
+    expect(restored?.expiresAt).toBeInstanceOf(Date);
+    expect(new Date() < restored!.expiresAt).toBe(true);
+    expect(restored?.data.joined).toEqual(new Date(0));
+  });
+  
+  it('should prefix items and scope keys() and clear() to the prefix', () => {
+    backing.setItem('theme', 'dark');
+    storage.set('a', entry(1));
+    storage.set('b', entry(2));
+    
+    expect(backing.getItem('app:a')).not.toBeNull();
+    expect(storage.keys().sort()).toEqual(['a', 'b']);
+    
+    storage.clear();
+    expect(storage.keys()).toEqual([]);
+    expect(backing.getItem('theme')).toBe('dark');
+  });
+  
+  it('should use a default prefix', () => {
+    new WebStorageCacheStorage(backing).set('a', entry(1));
+    expect(backing.getItem('endpoint-fetcher-cache:a')).not.toBeNull();
+  });
+  
+  it('should drop unreadable items', () => {
+    backing.setItem('app:broken', '{not json');
+    
+    expect(storage.get('broken')).toBeUndefined();
+    expect(backing.getItem('app:broken')).toBeNull();
+  });
+  
+  it('should evict expired entries first when the quota is exceeded', () => {
+    backing = new MemoryStorage(700);
+    storage = new WebStorageCacheStorage(backing, { prefix: 'app:' });
+    storage.set('old', entry('x'.repeat(100), 3600, secondsAgo(20)));
+    storage.set('expired', entry('x'.repeat(100), 1, secondsAgo(10)));
+    storage.set('fresh', entry('x'.repeat(100)));
+    
+    storage.set('new', entry('x'.repeat(100)));
+    
+    expect(storage.keys().sort()).toEqual(['fresh', 'new', 'old']);
+  });
+  
+  it('should evict the oldest entries until the write fits', () => {
+    backing = new MemoryStorage(700);
+    storage = new WebStorageCacheStorage(backing, { prefix: 'app:' });
+    storage.set('first', entry('x'.repeat(100), 3600, secondsAgo(30)));
+    storage.set('second', entry('x'.repeat(100), 3600, secondsAgo(20)));
+    storage.set('third', entry('x'.repeat(100), 3600, secondsAgo(10)));
+    
+    storage.set('big', entry('x'.repeat(250)));
+    
+    expect(storage.keys().sort()).toEqual(['big', 'third']);
+  });
+  
+  it('should skip entries that never fit and keep the others', () => {
+    backing = new MemoryStorage(300);
+    storage = new WebStorageCacheStorage(backing, { prefix: 'app:' });
+    storage.set('small', entry('x'));
+    
+    expect(storage.set('huge', entry('x'.repeat(1000)))).toBe(false);
+    expect(storage.keys()).toEqual(['small']);
+    expect(storage.get('small')?.data).toBe('x');
+  });
+  
+  it('should stop evicting once the room the entry takes has been freed', () => {
+    backing = new MemoryStorage(700);
+    storage = new WebStorageCacheStorage(backing, { prefix: 'app:' });
+    storage.set('first', entry('x'.repeat(100), 3600, secondsAgo(30)));
+    storage.set('second', entry('x'.repeat(100), 3600, secondsAgo(20)));
+    storage.set('third', entry('x'.repeat(100), 3600, secondsAgo(10)));
+    const removed: string[] = [];
+    const { setItem, removeItem } = backing;
+    // As when data of another library sharing the origin leaves no room
+    backing.setItem = (key, value) => {
+      if (key === 'app:new') {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      }
+      setItem.call(backing, key, value);
+    };
+    backing.removeItem = (key) => {
+      removed.push(key);
+      removeItem.call(backing, key);
+    };
+    
+    expect(storage.set('new', entry('x'.repeat(150)))).toBe(false);
+    expect(removed).toEqual(['app:first', 'app:second', 'app:new']);
+    expect(storage.keys().sort()).toEqual(['first', 'second', 'third']);
+  });
+  
+  it('should rethrow other storage errors', () => {
+    const failing = new MemoryStorage();
+    failing.setItem = () => {
+      throw new Error('SecurityError');
+    };
+    
+    expect(() => new WebStorageCacheStorage(failing).set('a', entry(1))).toThrow('SecurityError');
+  });
+});